@@ -8,6 +8,7 @@ import {
 import { BuiltInAgent } from "@copilotkitnext/agent";
 import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { profileData, rankByCompleteness } from "./src/components/dataProfile";
 
 // Types matching the frontend
 interface ChartDataPoint {
@@ -145,19 +146,11 @@ Return only the JSON object, no other text.`,
         return { chartType: "bar" };
       }
 
-      const firstItem = data[0];
-      const keys = Object.keys(firstItem);
-      const numericKeys: string[] = [];
-      const stringKeys: string[] = [];
-
-      keys.forEach((key) => {
-        const value = firstItem[key];
-        if (typeof value === "number") {
-          numericKeys.push(key);
-        } else if (typeof value === "string") {
-          stringKeys.push(key);
-        }
-      });
+      // Profile all rows rather than trusting the first one
+      const profile = profileData(data);
+      const keys = profile.keys;
+      const numericKeys = rankByCompleteness(profile.numericKeys, profile);
+      const stringKeys = rankByCompleteness(profile.stringKeys, profile);
 
       // Auto-detect name key (for labels/categories)
       const nameKey =
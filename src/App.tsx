@@ -1,6 +1,14 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useCopilotAction, useCopilotReadable } from "@copilotkit/react-core";
 import ChartGenerator from "./components/ChartGenerator";
+import {
+  formatFromFileName,
+  isDataFileName,
+  parseDataText,
+  type DataFormat,
+  type DelimiterOption,
+} from "./components/dataParser";
+import { normalizeData } from "./components/dataShapes";
 import { chartExamples, defaultExample } from "./examples";
 import type { ChartDataPoint } from "./types";
 import "./App.css";
@@ -17,6 +25,55 @@ function App() {
     JSON.stringify(defaultExample.data, null, 2)
   );
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [delimiter, setDelimiter] = useState<DelimiterOption>("auto");
+  // Text of the "Other" delimiter field; null while a listed one is chosen
+  const [customDelimiter, setCustomDelimiter] = useState<string | null>(null);
+  const [parsedFormat, setParsedFormat] = useState<DataFormat>("json");
+  const [dataPath, setDataPath] = useState("");
+  const [detectedShape, setDetectedShape] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Parse editor text (JSON, CSV, TSV or a spreadsheet paste) into chart data
+  const applyDataText = (
+    text: string,
+    options: {
+      delimiter?: DelimiterOption;
+      format?: DataFormat;
+      path?: string;
+    } = {}
+  ) => {
+    setJsonText(text);
+    try {
+      const parsed = parseDataText(text, {
+        delimiter: options.delimiter ?? delimiter,
+        format: options.format,
+        path: options.path ?? dataPath,
+      });
+      setChartData(parsed.data);
+      setParsedFormat(parsed.format);
+      setDetectedShape(
+        parsed.shape && parsed.shape !== "rows"
+          ? `${parsed.shape}${parsed.path ? ` at ${parsed.path}` : ""}`
+          : null
+      );
+      setJsonError(null);
+    } catch (error) {
+      // Invalid input - show error but allow editing
+      setJsonError(error instanceof Error ? error.message : "Invalid data");
+    }
+  };
+
+  const loadDataFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!isDataFileName(file.name)) {
+      setJsonError(`Unsupported file type: ${file.name}`);
+      return;
+    }
+    applyDataText(await file.text(), {
+      format: formatFromFileName(file.name),
+    });
+  };
 
   // Make chart data readable to CopilotKit
   useCopilotReadable({
@@ -68,16 +125,21 @@ function App() {
       },
     ],
     handler: async ({ data, chartType, title, xAxisKey, yAxisKey }) => {
+      if (!data || typeof data !== "object") {
+        return;
+      }
+      // Columnar, keyed and envelope payloads are turned into rows
       let newData: ChartDataPoint[];
-      if (Array.isArray(data)) {
-        newData = data as ChartDataPoint[];
-      } else if (data && typeof data === "object") {
-        newData = [data as ChartDataPoint];
-      } else {
+      try {
+        newData = normalizeData(data).data;
+      } catch {
         return;
       }
       setChartData(newData);
       setJsonText(JSON.stringify(newData, null, 2));
+      setParsedFormat("json");
+      setDetectedShape(null);
+      setDataPath("");
       setJsonError(null);
       setChartPrompt(
         `${chartType} chart${title ? ` titled "${title}"` : ""}${
@@ -98,7 +160,7 @@ function App() {
         <div className="input-section">
           <div className="input-group">
             <div className="label-row">
-              <label htmlFor="data-input">Chart Data (JSON):</label>
+              <label htmlFor="data-input">Chart Data (JSON, CSV or TSV):</label>
               <div className="example-selector">
                 <select
                   className="example-select"
@@ -112,6 +174,8 @@ function App() {
                       setChartPrompt(example.prompt);
                       setSelectedExample(example.name);
                       setJsonText(JSON.stringify(example.data, null, 2));
+                      setParsedFormat("json");
+                      setDetectedShape(null);
                       setJsonError(null);
                     }
                   }}
@@ -124,38 +188,105 @@ function App() {
                 </select>
               </div>
             </div>
-            <textarea
-              id="data-input"
-              className="data-input"
-              placeholder='Example: [{"name": "Jan", "value": 400}, {"name": "Feb", "value": 300}]'
-              value={jsonText}
-              onChange={(e) => {
-                const newText = e.target.value;
-                setJsonText(newText);
-
-                // Try to parse and update chartData if valid
-                try {
-                  const parsed = JSON.parse(newText);
-                  if (Array.isArray(parsed) && parsed.length > 0) {
-                    setChartData(parsed);
-                    setJsonError(null);
-                  } else if (Array.isArray(parsed)) {
-                    // Empty array is valid
-                    setChartData(parsed);
-                    setJsonError(null);
-                  } else {
-                    setJsonError("Data must be an array");
-                  }
-                } catch (error) {
-                  // Invalid JSON - show error but allow editing
-                  setJsonError(
-                    error instanceof Error
-                      ? `Invalid JSON: ${error.message}`
-                      : "Invalid JSON"
-                  );
-                }
+            <div
+              className={`drop-zone${isDragging ? " dragging" : ""}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
               }}
-            />
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                loadDataFile(e.dataTransfer.files[0]);
+              }}
+            >
+              <textarea
+                id="data-input"
+                className="data-input"
+                placeholder={
+                  'Paste JSON, CSV or spreadsheet cells, or drop a .csv, .tsv or .json file.\nExample: [{"name": "Jan", "value": 400}, {"name": "Feb", "value": 300}]'
+                }
+                value={jsonText}
+                onChange={(e) => applyDataText(e.target.value)}
+              />
+            </div>
+            <div className="data-options">
+              <span className="data-format">
+                {parsedFormat.toUpperCase()}
+                {detectedShape && ` (${detectedShape})`} · {chartData.length}{" "}
+                rows
+              </span>
+              {parsedFormat === "json" && (
+                <input
+                  className="path-input"
+                  type="text"
+                  value={dataPath}
+                  placeholder="$.data"
+                  aria-label="JSON path to the data rows"
+                  title="JSON path to the data rows, e.g. $.data.items"
+                  onChange={(e) => {
+                    setDataPath(e.target.value);
+                    applyDataText(jsonText, { path: e.target.value });
+                  }}
+                />
+              )}
+              <select
+                className="delimiter-select"
+                value={customDelimiter === null ? delimiter : "other"}
+                aria-label="Delimiter"
+                onChange={(e) => {
+                  if (e.target.value === "other") {
+                    setCustomDelimiter("");
+                    return;
+                  }
+                  const next = e.target.value as DelimiterOption;
+                  setCustomDelimiter(null);
+                  setDelimiter(next);
+                  applyDataText(jsonText, { delimiter: next });
+                }}
+              >
+                <option value="auto">Auto-detect delimiter</option>
+                <option value=",">Comma</option>
+                <option value={"\t"}>Tab</option>
+                <option value=";">Semicolon</option>
+                <option value="|">Pipe</option>
+                <option value="other">Other…</option>
+              </select>
+              {customDelimiter !== null && (
+                <input
+                  className="path-input delimiter-input"
+                  type="text"
+                  value={customDelimiter}
+                  maxLength={1}
+                  aria-label="Custom delimiter"
+                  title="Character that separates the fields"
+                  onChange={(e) => {
+                    const next = e.target.value || "auto";
+                    setCustomDelimiter(e.target.value);
+                    setDelimiter(next);
+                    applyDataText(jsonText, { delimiter: next });
+                  }}
+                />
+              )}
+              <button
+                type="button"
+                className="file-button"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                Open file…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.json,.txt"
+                hidden
+                onChange={(e) => {
+                  loadDataFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </div>
             {jsonError && <div className="json-error">{jsonError}</div>}
           </div>
 
@@ -3,11 +3,95 @@ import { useCopilotReadable } from "@copilotkit/react-core";
 import ReactECharts from "echarts-for-react";
 import type { EChartsOption } from "echarts";
 import {
+  applyMeasureLabels,
+  applyTransformLabels,
   detectEChartsType,
   getEChartsConfig,
-  getRandomColorPalette,
   type EChartsElementConfig,
 } from "./echartsConfig";
+import {
+  parseAggregation,
+  parseDensityOptions,
+  parseHistogramOptions,
+  toFiniteNumber,
+  type AggregationType,
+} from "./statistics";
+import { parseMissingValuePolicy } from "./missingValues";
+import { buildHierarchy, hasNestedChildren } from "./hierarchy";
+import { detectOhlcKeys, parseMovingAverages } from "./financial";
+import {
+  customPalette,
+  getPaletteColors,
+  resolvePalette,
+} from "./palettes";
+import {
+  NAMED_COLORS,
+  normalizeColor,
+  createColorRegistry,
+  parseExplicitColors,
+} from "./colorAssignment";
+import { hasNetworkEnvelope, parseNetworkOptions } from "./network";
+import { DEFAULT_TEMPORAL_FORMAT, parseDateOrder } from "./dates";
+import {
+  parseResampleOptions,
+  resampleRows,
+  TIME_BUCKETS,
+  type ResampleOptions,
+  type TimeBucket,
+} from "./resample";
+import {
+  applyCoercions,
+  profileData,
+  rankByCompleteness,
+} from "./dataProfile";
+import { groupRows, hasRepeatedLabels, parseGroupBy } from "./groupBy";
+import {
+  OTHER_COLOR,
+  OTHER_LABEL,
+  parseRankOptions,
+  rankRows,
+} from "./ranking";
+import {
+  detectSeriesKey,
+  parseSeriesWord,
+  pivotRows,
+  scoreSeriesKey,
+} from "./pivot";
+import {
+  applyComputedFields,
+  inferComputedFields,
+  promptNamesField,
+  validateComputedField,
+  type ComputedField,
+} from "./expressions";
+import {
+  applyFilters,
+  describeFilter,
+  FILTER_OPERATORS,
+  parseFilters,
+  type DataFilter,
+  type FilterOperator,
+} from "./filters";
+import { parseWindowTransform, windowRows } from "./windowTransforms";
+import { parseComboRequest, planComboSeries } from "./combo";
+import { parseTrendlineOptions } from "./regression";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  downloadBlob,
+  exportChart,
+  toFileName,
+  type ExportBackground,
+  type ExportFormat,
+} from "./chartExport";
+import {
+  createChartSpec,
+  findMissingSpecKeys,
+  parseChartSpec,
+  serializeChartSpec,
+  specPalette,
+  type ChartSpec,
+  type ChartSpecOptions,
+} from "./chartSpec";
 
 import type { ChartDataPoint, FlattenedDataPoint, ChartNestedObject, ChartValue, ChartValueArray } from "../types";
 
@@ -52,6 +136,112 @@ const flattenObject = (
   return result;
 };
 
+// Lowercase words of a key or prompt word: "totalSales" and "total_sales"
+// both give ["total", "sales"]
+const wordTokens = (text: string) =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Find the data key a prompt word refers to, tolerating case and "_"/"-"
+// separators. A word matches whole words of a key ("sales" finds
+// total_sales), never part of one, so "show" or "red" don't bind to columns.
+const findKeyForWord = (word: string, keys: string[]): string | undefined => {
+  const words = wordTokens(word);
+  if (words.length === 0) return undefined;
+  const compact = words.join("");
+  const exact = keys.find((k) => wordTokens(k).join("") === compact);
+  if (exact) return exact;
+  return keys.find((k) => {
+    const tokens = wordTokens(k);
+    return tokens.some((_, start) =>
+      words.every((token, offset) => tokens[start + offset] === token)
+    );
+  });
+};
+
+// Prompts use plurals ("per regions", "distinct customers")
+const findKeyForNoun = (word: string, keys: string[]) =>
+  findKeyForWord(word, keys) || findKeyForWord(word.replace(/e?s$/, ""), keys);
+
+// Chart types that plot one point per label, so combining rows that share a
+// label (time buckets or group-by) keeps their meaning
+const AGGREGATE_CHART_TYPES = [
+  "bar",
+  "stackedbar",
+  "groupedbar",
+  "line",
+  "area",
+  "stackedarea",
+  "lollipop",
+  "pie",
+  "donut",
+  "funnel",
+  "polararea",
+  "radialbar",
+  "combo",
+];
+
+// Chart types that draw one series per column, so long-format rows can be
+// pivoted into a series per category
+const PIVOT_CHART_TYPES = [
+  "line",
+  "bar",
+  "stackedbar",
+  "groupedbar",
+  "area",
+  "stackedarea",
+  "themeriver",
+];
+
+// Chart types whose series can be window-transformed ("cumulative sales")
+const WINDOW_CHART_TYPES = [
+  "line",
+  "bar",
+  "stackedbar",
+  "groupedbar",
+  "area",
+  "stackedarea",
+  "combo",
+];
+
+// Chart types that can overlay fitted trendlines
+const TRENDLINE_CHART_TYPES = ["line", "scatter", "bubble"];
+
+// Part-to-whole charts where a top-N cut keeps the remainder as "Other"
+const OTHER_CHART_TYPES = ["pie", "donut", "funnel", "treemap"];
+
+const BUCKET_LABELS: Record<TimeBucket, string> = {
+  hour: "Hourly",
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+  quarter: "Quarterly",
+  year: "Yearly",
+};
+
+const AGGREGATION_LABELS: Record<AggregationType, string> = {
+  sum: "Sum",
+  mean: "Mean",
+  median: "Median",
+  min: "Min",
+  max: "Max",
+  count: "Count",
+  distinct: "Distinct",
+};
+
+const FILTER_LABELS: Record<FilterOperator, string> = {
+  in: "is",
+  notIn: "is not",
+  gt: "more than",
+  gte: "at least",
+  lt: "less than",
+  lte: "at most",
+  between: "between",
+};
+
 interface ChartGeneratorProps {
   data: ChartDataPoint[];
   prompt: string;
@@ -68,6 +258,39 @@ interface GeneratedChartConfig {
   };
   colors?: string[];
   promptHash?: string;
+  spec?: ChartSpec; // Reusable definition of this chart
+  notes?: string[]; // Assumptions worth surfacing, e.g. ambiguous dates
+  canResample?: boolean; // The x labels are dates this chart type can bucket
+  resample?: ResampleOptions; // Bucketing applied to the data
+}
+
+// A spec applies to the prompt it was imported under; editing the prompt
+// goes back to prompt-driven generation
+interface ImportedSpec {
+  spec: ChartSpec;
+  prompt: string;
+  importedAt: number;
+}
+
+// Resampling picked in the header; like an imported spec it applies to the
+// prompt it was picked under. null turns resampling off.
+interface ResampleChoice {
+  resample: ResampleOptions | null;
+  prompt: string;
+}
+
+// Prompt or spec filters removed from the header, for that prompt only
+interface FilterDismissal {
+  labels: string[]; // describeFilter() of each removed filter
+  prompt: string;
+}
+
+// Filter being built in the header; values are raw input text
+interface FilterDraft {
+  key: string;
+  operator: FilterOperator;
+  value: string;
+  value2: string;
 }
 
 const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
@@ -76,22 +299,102 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
   );
   const [error, setError] = useState<string | null>(null);
   const previousHashRef = useRef<string>("");
+  const chartWrapperRef = useRef<HTMLDivElement>(null);
+  // Name-keyed palette colors survive prompt edits for this generator
+  const colorRegistryRef = useRef(createColorRegistry());
+  const [isExporting, setIsExporting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [importedSpec, setImportedSpec] = useState<ImportedSpec | null>(null);
+  const specInputRef = useRef<HTMLInputElement>(null);
+  const [resampleChoice, setResampleChoice] = useState<ResampleChoice | null>(
+    null
+  );
+  // Computed fields defined in the header; they apply to every prompt
+  const [customFields, setCustomFields] = useState<ComputedField[]>([]);
+  const [fieldDraft, setFieldDraft] = useState<ComputedField | null>(null);
+  const [fieldError, setFieldError] = useState<string | null>(null);
+  // Filters built in the header apply to every prompt, like custom fields
+  const [customFilters, setCustomFilters] = useState<DataFilter[]>([]);
+  const [filterDismissal, setFilterDismissal] =
+    useState<FilterDismissal | null>(null);
+  const [filterDraft, setFilterDraft] = useState<FilterDraft | null>(null);
+  const [filterError, setFilterError] = useState<string | null>(null);
 
   // Make data and prompt readable to CopilotKit
   useCopilotReadable({
     description:
-      "The chart data to visualize. This is an array of objects containing the data points. Each object can have nested structures, arrays, or simple key-value pairs. The data may contain numeric values, strings, dates, or mixed types. The system supports a comprehensive set of chart types: bar charts (including stacked and grouped), line charts (with trendlines), pie/donut charts, area charts (stacked), scatter plots (including bubble and effect scatter), radar charts, heatmaps, treemaps, funnels, sankey diagrams, sunburst charts, candlestick charts (for financial/stock data with OHLC), parallel coordinates (for multivariate data), network graphs (for relationships), theme rivers (for event flows), route lines, hierarchical trees, calendar heatmaps, polar area charts, histograms, box plots, lollipop charts, and density plots. Analyze the structure to identify appropriate keys for axes, series, and labels. The system automatically flattens nested objects and detects numeric, string, and date fields.",
+      "The chart data to visualize. This is an array of objects containing the data points. Each object can have nested structures, arrays, or simple key-value pairs. The data may contain numeric values, strings, dates, or mixed types. The system supports a comprehensive set of chart types: bar charts (including stacked and grouped), line charts, pie/donut charts, area charts (stacked), scatter plots (including bubble and effect scatter), trendlines on line, scatter and bubble charts (linear, polynomial, exponential, logarithmic, power or LOESS fits with optional R², equation and confidence band), radar charts, heatmaps, treemaps, funnels, sankey diagrams, sunburst charts, candlestick charts (for financial/stock data with OHLC), parallel coordinates (for multivariate data), network graphs (for relationships), theme rivers (for event flows), route lines, hierarchical trees, calendar heatmaps, polar area charts, histograms, box plots, lollipop charts, density plots, and combo charts (bars, lines and areas on dual y-axes). Analyze the structure to identify appropriate keys for axes, series, and labels. The system automatically flattens nested objects and detects numeric, string, and date fields.",
     value: data,
   });
 
   useCopilotReadable({
     description:
-      "The user's natural language description of what chart they want. Supported chart types include: bar, line, pie, area, scatter, radar, heatmap, treemap, funnel, sankey, sunburst, candlestick (for financial data), parallel (for multivariate analysis), graph (for network diagrams), themeriver (for event flows), effectscatter (animated scatter), lines (for routes), tree (hierarchical), calendar (calendar heatmap), and variations like stackedbar, groupedbar, stackedarea, donut, bubble, polararea, histogram, boxplot, lollipop, density. The description can include: chart type, styling preferences, axis labels, colors, titles, data series to display, comparisons, trends, trendlines, or any other visualization requirements. Interpret the intent flexibly and suggest the most appropriate chart configuration. The system can handle requests like 'create a candlestick chart for stock data', 'show a network graph of relationships', 'display parallel coordinates for multivariate analysis', 'create a calendar heatmap of daily activity', etc.",
+      "The user's natural language description of what chart they want. Supported chart types include: bar, line, pie, area, scatter, radar, heatmap, treemap, funnel, sankey, sunburst, candlestick (for financial data), parallel (for multivariate analysis), graph (for network diagrams), themeriver (for event flows), effectscatter (animated scatter), lines (for routes), tree (hierarchical), calendar (calendar heatmap), combo (bars and lines on left and right axes, e.g. 'growth on right axis'), and variations like stackedbar, groupedbar, stackedarea, donut, bubble, polararea, histogram, boxplot, lollipop, density. The description can include: chart type, styling preferences, axis labels, colors, titles, data series to display, comparisons, trends, trendlines, or any other visualization requirements. Interpret the intent flexibly and suggest the most appropriate chart configuration. The system can handle requests like 'create a candlestick chart for stock data', 'show a network graph of relationships', 'display parallel coordinates for multivariate analysis', 'create a calendar heatmap of daily activity', etc.",
     value: prompt,
   });
 
+  // Profile every row so nulls in the first row or keys that only appear
+  // later don't hide fields; numeric strings such as "12.5" or "45%" become
+  // numbers
+  const baseData = useMemo(() => {
+    const rawFlattened = (data || []).map((item) => flattenObject(item));
+    const profile = profileData(rawFlattened);
+    return { rows: applyCoercions(rawFlattened, profile), profile };
+  }, [data]);
+
+  // Computed fields: an active spec's own, otherwise the prompt's ("plot
+  // solve rate"), then the ones defined in the header
+  const fieldSet = useMemo(() => {
+    const activeSpec =
+      importedSpec && importedSpec.prompt === prompt ? importedSpec.spec : null;
+    const numericKeys = baseData.profile.numericKeys;
+    const resolveNumeric = (word: string) =>
+      findKeyForWord(word, numericKeys);
+    const promptFields = activeSpec
+      ? []
+      : inferComputedFields(
+          prompt || "",
+          numericKeys,
+          baseData.profile.keys,
+          resolveNumeric
+        );
+    const requested = [
+      ...(activeSpec ? activeSpec.computedFields || [] : promptFields),
+      ...customFields,
+    ];
+    // Fields that don't fit this data are skipped and reported
+    const fields: ComputedField[] = [];
+    const errors: string[] = [];
+    const keys = [...baseData.profile.keys];
+    requested.forEach((field) => {
+      const fieldProblem = validateComputedField(field, keys);
+      if (fieldProblem) {
+        // A column the data already carries is used as it is
+        if (!keys.includes(field.name)) errors.push(fieldProblem);
+        return;
+      }
+      fields.push(field);
+      keys.push(field.name);
+    });
+    return {
+      fields,
+      // Only fields the prompt names replace the plotted measure
+      plottedFields: promptFields.filter(
+        (field) =>
+          fields.includes(field) &&
+          promptNamesField(
+            prompt || "",
+            field,
+            baseData.profile.keys,
+            resolveNumeric
+          )
+      ),
+      errors,
+    };
+  }, [baseData, prompt, importedSpec, customFields]);
+
   const dataKeys = useMemo(() => {
-    if (!data || data.length === 0) {
+    if (baseData.rows.length === 0) {
       return {
         allKeys: [],
         numericKeys: [],
@@ -100,29 +403,22 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
         nameKey: "",
         valueKey: "",
         flattenedData: [],
+        profile: profileData([]),
       };
     }
 
-    const firstItem = data[0];
-    const flattened = flattenObject(firstItem);
-    const allKeys = Object.keys(flattened);
-
-    const numericKeys: string[] = [];
-    const stringKeys: string[] = [];
-    const dateKeys: string[] = [];
-
-    allKeys.forEach((key) => {
-      const value = flattened[key];
-      if (typeof value === "number" && !isNaN(value)) {
-        numericKeys.push(key);
-      } else if (typeof value === "string") {
-        stringKeys.push(key);
-        // Check if it's a date string
-        if (!isNaN(Date.parse(value))) {
-          dateKeys.push(key);
-        }
-      }
-    });
+    // Computed columns are profiled like the data's own
+    const computedRows = applyComputedFields(
+      baseData.rows,
+      fieldSet.fields,
+      (key) => baseData.profile.fields[key]?.temporal
+    );
+    const profile =
+      fieldSet.fields.length > 0 ? profileData(computedRows) : baseData.profile;
+    const allKeys = profile.keys;
+    const numericKeys = rankByCompleteness(profile.numericKeys, profile);
+    const stringKeys = rankByCompleteness(profile.stringKeys, profile);
+    const dateKeys = rankByCompleteness(profile.dateKeys, profile);
 
     // Auto-detect name key (for labels/categories) - enhanced for generic JSON schemas
     const nameKey =
@@ -145,8 +441,10 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
       numericKeys[0] ||
       "";
 
-    // Flatten all data items
-    const flattenedData = data.map((item) => flattenObject(item));
+    const flattenedData =
+      fieldSet.fields.length > 0
+        ? applyCoercions(computedRows, profile)
+        : computedRows;
 
     return {
       allKeys,
@@ -156,8 +454,47 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
       nameKey,
       valueKey,
       flattenedData,
+      profile,
     };
-  }, [data]);
+  }, [baseData, fieldSet]);
+
+  // Row filters from the prompt ("only agents with more than 5
+  // interactions") or an active spec, minus the ones removed in the
+  // header, plus the ones built there
+  const filterSet = useMemo(() => {
+    const activeSpec =
+      importedSpec && importedSpec.prompt === prompt ? importedSpec.spec : null;
+    const temporalFor = (key: string) => dataKeys.profile.fields[key]?.temporal;
+    const requested = activeSpec
+      ? activeSpec.filters || []
+      : parseFilters(prompt || "", {
+          rows: dataKeys.flattenedData,
+          numericKeys: dataKeys.numericKeys,
+          labelKeys: [
+            dataKeys.nameKey,
+            ...dataKeys.stringKeys.filter((key) => key !== dataKeys.nameKey),
+          ].filter(Boolean),
+          timeKey: temporalFor(dataKeys.nameKey)
+            ? dataKeys.nameKey
+            : dataKeys.dateKeys[0],
+          temporalFor,
+          resolveKey: findKeyForNoun,
+        });
+    const dismissed =
+      filterDismissal && filterDismissal.prompt === prompt
+        ? filterDismissal.labels
+        : [];
+    const filters = [
+      ...requested.filter(
+        (filter) => !dismissed.includes(describeFilter(filter))
+      ),
+      ...customFilters,
+    ].filter((filter) => dataKeys.allKeys.includes(filter.key));
+    return {
+      filters,
+      rows: applyFilters(dataKeys.flattenedData, filters, temporalFor),
+    };
+  }, [dataKeys, prompt, importedSpec, customFilters, filterDismissal]);
 
   // Create a hash of data and prompt to detect changes
   // This hash will change whenever data or prompt changes, triggering a re-render
@@ -182,18 +519,52 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
     if (
       data &&
       data.length > 0 &&
-      prompt &&
-      prompt.trim().length > 0 &&
+      ((prompt && prompt.trim().length > 0) || importedSpec) &&
       dataKeys.nameKey &&
       dataKeys.valueKey
     ) {
+      const activeSpec =
+        importedSpec && importedSpec.prompt === prompt
+          ? importedSpec.spec
+          : null;
+      const activeResampleChoice =
+        !activeSpec && resampleChoice && resampleChoice.prompt === prompt
+          ? resampleChoice
+          : null;
+      // Header fields and filters change the data without changing the prompt
+      const headerHash = [
+        ...customFields.map((field) => `${field.name}=${field.expression}`),
+        ...filterSet.filters.map(describeFilter),
+      ].join(";");
+      const generationHash = `${
+        activeSpec
+          ? `${dataPromptHash}_spec_${importedSpec?.importedAt}`
+          : activeResampleChoice
+          ? `${dataPromptHash}_resample_${
+              activeResampleChoice.resample
+                ? `${activeResampleChoice.resample.bucket}_${activeResampleChoice.resample.aggregation}`
+                : "none"
+            }`
+          : dataPromptHash
+      }${headerHash && `_header_${headerHash}`}`;
+
       // Check if we already have a config for this exact prompt and data combination
-      if (previousHashRef.current === dataPromptHash) {
+      if (previousHashRef.current === generationHash) {
         return;
       }
 
       // Update the ref to track this hash
-      previousHashRef.current = dataPromptHash;
+      previousHashRef.current = generationHash;
+
+      if (filterSet.rows.length === 0) {
+        setTimeout(() => {
+          setChartConfig(null);
+          setError(
+            "No rows match the active filters; remove one to see data again"
+          );
+        }, 0);
+        return;
+      }
 
       const promptLower = prompt.toLowerCase().trim();
       let hasTrendline = false;
@@ -212,16 +583,33 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
         promptLower.includes("trend line") ||
         promptLower.includes("regression") ||
         promptLower.includes("linear trend") ||
-        promptLower.match(/\b(trendline|trend\s*line|regression)\b/)
+        promptLower.match(/\b(trendline|trend\s*line|regression)\b/) ||
+        promptLower.match(
+          /\b(loess|lowess|best[\s-]fit|curve[\s-]fit|line of best fit)\b|\b(polynomial|quadratic|cubic|exponential|logarithmic|power[\s-]law)\s+(fit|trend|curve)\b/
+        )
       ) {
         hasTrendline = true;
       }
 
-      // Detect chart type
+      // Detect chart type; trendlines need a line, scatter or bubble chart
       let chartType = detectEChartsType(prompt);
-      if (hasTrendline && chartType !== "line" && chartType !== "scatter") {
+      if (hasTrendline && !TRENDLINE_CHART_TYPES.includes(chartType)) {
         chartType = "line";
       }
+      // "stock levels per warehouse" only means a candlestick when the data
+      // has open/high/low/close columns
+      if (
+        chartType === "candlestick" &&
+        !/\b(candlestick|candle|ohlc)\b/.test(promptLower) &&
+        detectOhlcKeys(filterSet.rows).missing.length > 0
+      ) {
+        chartType = "bar";
+      }
+      if (activeSpec) {
+        chartType = activeSpec.chartType;
+        hasTrendline = Boolean(activeSpec.options.hasTrendline);
+        multipleTrendlines = Boolean(activeSpec.options.multipleTrendlines);
+      }
 
       // Extract data keys from prompt
       const mentionedKeys: string[] = [];
@@ -230,26 +618,8 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
       if (vsMatch) {
         const key1 = vsMatch[1].trim();
         const key2 = vsMatch[2].trim();
-        const foundKey1 = dataKeys.allKeys.find((k) => {
-          const kLower = k.toLowerCase();
-          const key1Lower = key1.toLowerCase();
-          return (
-            kLower === key1Lower ||
-            kLower.includes(key1Lower) ||
-            key1Lower.includes(kLower) ||
-            kLower.replace(/[_-]/g, "") === key1Lower.replace(/[_-]/g, "")
-          );
-        });
-        const foundKey2 = dataKeys.allKeys.find((k) => {
-          const kLower = k.toLowerCase();
-          const key2Lower = key2.toLowerCase();
-          return (
-            kLower === key2Lower ||
-            kLower.includes(key2Lower) ||
-            key2Lower.includes(kLower) ||
-            kLower.replace(/[_-]/g, "") === key2Lower.replace(/[_-]/g, "")
-          );
-        });
+        const foundKey1 = findKeyForWord(key1, dataKeys.allKeys);
+        const foundKey2 = findKeyForWord(key2, dataKeys.allKeys);
         if (foundKey1 && !mentionedKeys.includes(foundKey1)) {
           mentionedKeys.push(foundKey1);
         }
@@ -351,67 +721,183 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
         }
       }
 
+      // "plot solve rate" charts the field the prompt computed
+      const { plottedFields } = fieldSet;
+      if (plottedFields.length > 0) {
+        valueKeyToUse = plottedFields[0].name;
+        dataKeysToUse =
+          plottedFields.length > 1
+            ? plottedFields.map((field) => field.name).join(",")
+            : undefined;
+      }
+
+      // An imported spec pins the mapping; the new data must provide its keys
+      if (activeSpec) {
+        const missingKeys = findMissingSpecKeys(activeSpec, dataKeys.allKeys);
+        if (missingKeys.length > 0) {
+          setTimeout(() => {
+            setChartConfig(null);
+            setError(
+              `The imported chart spec needs fields missing from this data: ${missingKeys.join(
+                ", "
+              )}`
+            );
+          }, 0);
+          return;
+        }
+        nameKeyToUse = activeSpec.dataMapping.nameKey;
+        valueKeyToUse = activeSpec.dataMapping.valueKey;
+        dataKeysToUse = activeSpec.dataMapping.dataKeys?.join(",");
+      }
+
+      // Combo charts compare several measures; without named ones, all of
+      // them
+      if (chartType === "combo" && !activeSpec && !dataKeysToUse) {
+        const measures = dataKeys.numericKeys.filter(
+          (key) => key !== nameKeyToUse
+        );
+        if (measures.length >= 2) {
+          valueKeyToUse = measures[0];
+          dataKeysToUse = measures.join(",");
+        }
+      }
+
+      // "average quality_score by agent" plots one point per agent;
+      // "distinct customers per region" counts a field's different values.
+      // "number of <numeric column>" sums it rather than counting rows.
+      const isMeasureWord = (word: string) =>
+        Boolean(findKeyForNoun(word, dataKeys.numericKeys));
+      const isPivotable = PIVOT_CHART_TYPES.includes(chartType);
+      const groupByRequest =
+        !activeSpec &&
+        (AGGREGATE_CHART_TYPES.includes(chartType) || isPivotable)
+          ? parseGroupBy(prompt, isMeasureWord)
+          : undefined;
+
+      // Long-format rows ({month, team, tickets}) split into a series per
+      // team: named with "split by team", implied by "tickets by team" over
+      // dates, or detected when the x labels repeat
+      const seriesWord =
+        isPivotable && !activeSpec ? parseSeriesWord(prompt) : undefined;
+      let seriesKeyToUse = activeSpec
+        ? activeSpec.options.seriesKey
+        : seriesWord
+        ? findKeyForNoun(seriesWord, dataKeys.stringKeys)
+        : undefined;
+      const timeKey = dataKeys.profile.fields[nameKeyToUse]?.temporal
+        ? nameKeyToUse
+        : dataKeys.dateKeys[0];
+
+      if (groupByRequest?.groupWord) {
+        const groupKey = findKeyForNoun(
+          groupByRequest.groupWord,
+          dataKeys.stringKeys
+        );
+        if (
+          groupKey &&
+          !seriesKeyToUse &&
+          isPivotable &&
+          chartType !== "bar" &&
+          timeKey &&
+          scoreSeriesKey(filterSet.rows, timeKey, groupKey) > 0
+        ) {
+          nameKeyToUse = timeKey;
+          seriesKeyToUse = groupKey;
+        } else if (
+          groupKey &&
+          groupKey !== valueKeyToUse &&
+          groupKey !== seriesKeyToUse
+        ) {
+          nameKeyToUse = groupKey;
+        }
+      }
+      if (seriesKeyToUse && seriesKeyToUse === nameKeyToUse) {
+        nameKeyToUse =
+          [timeKey, dataKeys.nameKey, ...dataKeys.stringKeys].find(
+            (key) => key && key !== seriesKeyToUse
+          ) || nameKeyToUse;
+      }
+      if (
+        !seriesKeyToUse &&
+        isPivotable &&
+        !activeSpec &&
+        !dataKeysToUse &&
+        !groupByRequest?.explicit
+      ) {
+        seriesKeyToUse = detectSeriesKey(
+          filterSet.rows,
+          nameKeyToUse,
+          dataKeys.stringKeys.filter((key) => key !== nameKeyToUse)
+        );
+      }
+      if (seriesKeyToUse === nameKeyToUse) seriesKeyToUse = undefined;
+      if (groupByRequest?.aggregation === "distinct") {
+        const distinctKey = groupByRequest.distinctWord
+          ? findKeyForNoun(groupByRequest.distinctWord, dataKeys.allKeys)
+          : undefined;
+        if (distinctKey && distinctKey !== nameKeyToUse) {
+          valueKeyToUse = distinctKey;
+          dataKeysToUse = undefined;
+        }
+      }
+
+      // Box plots group by the category after "by"/"per", e.g. "quality_score by team"
+      let groupKeyToUse: string | undefined;
+      if (chartType === "boxplot") {
+        const groupMatch = promptLower.match(
+          /\b(?:by|per|for each|across)\s+([\w.]+)/
+        );
+        const groupCandidates = [
+          ...dataKeys.stringKeys,
+          ...dataKeys.allKeys.filter(
+            (key) => !dataKeys.stringKeys.includes(key)
+          ),
+        ];
+        groupKeyToUse = groupMatch
+          ? findKeyForWord(groupMatch[1], groupCandidates)
+          : undefined;
+        if (groupKeyToUse === valueKeyToUse) {
+          groupKeyToUse = undefined;
+        }
+      }
+      const showMean = /\b(mean|average|avg)\b/.test(promptLower);
+
+      // Heatmaps use a second category column for rows (e.g. agent × weekday);
+      // without one, or when several numeric columns are named, the numeric
+      // columns are pivoted into rows instead
+      let heatmapYKey: string | undefined;
+      if (chartType === "heatmap" && !dataKeysToUse) {
+        heatmapYKey = [...mentionedKeys, ...dataKeys.stringKeys].find(
+          (key) => dataKeys.stringKeys.includes(key) && key !== nameKeyToUse
+        );
+      }
+
+      // "color by team" / "colored by department" picks the category column
+      const colorByMatch = promptLower.match(
+        /colou?r(?:ed|s)?\s+by\s+([\w.]+)/
+      );
+      const colorByKey = colorByMatch
+        ? findKeyForWord(colorByMatch[1], dataKeys.stringKeys)
+        : undefined;
+
       // Extract colors from prompt - supports multiple colors
       const extractColors = (promptText: string): string[] | undefined => {
-        const colorMap: Record<string, string> = {
-          red: "#ff0000",
-          blue: "#0066ff",
-          green: "#00cc00",
-          yellow: "#ffcc00",
-          orange: "#ff6600",
-          purple: "#9900cc",
-          pink: "#ff00cc",
-          teal: "#00cccc",
-          cyan: "#00ffff",
-          magenta: "#ff00ff",
-          lime: "#00ff00",
-          brown: "#8b4513",
-          black: "#000000",
-          white: "#ffffff",
-          gray: "#808080",
-          grey: "#808080",
-          navy: "#000080",
-          maroon: "#800000",
-          olive: "#808000",
-          aqua: "#00ffff",
-          silver: "#c0c0c0",
-          gold: "#ffd700",
-          indigo: "#4b0082",
-          violet: "#8a2be2",
-          coral: "#ff7f50",
-          salmon: "#fa8072",
-          turquoise: "#40e0d0",
-          khaki: "#f0e68c",
-          lavender: "#e6e6fa",
-          plum: "#dda0dd",
-          beige: "#f5f5dc",
-          tan: "#d2b48c",
-        };
         const foundColors: string[] = [];
 
         // Extract all color names mentioned in the prompt (case-insensitive)
-        Object.keys(colorMap).forEach((colorName) => {
+        Object.keys(NAMED_COLORS).forEach((colorName) => {
           // Use word boundary to match whole words only
           const regex = new RegExp(`\\b${colorName}\\b`, "i");
           if (regex.test(promptText)) {
-            foundColors.push(colorMap[colorName]);
+            foundColors.push(NAMED_COLORS[colorName]);
           }
         });
 
-        // Extract hex colors (supports both 6-digit and 3-digit hex)
+        // Extract hex colors (3-digit hex is expanded to 6-digit)
         const hexMatches = promptText.match(/#[0-9a-f]{3,6}/gi);
         if (hexMatches) {
-          // Convert 3-digit hex to 6-digit if needed
           hexMatches.forEach((hex) => {
-            if (hex.length === 4) {
-              // Convert #rgb to #rrggbb
-              const r = hex[1];
-              const g = hex[2];
-              const b = hex[3];
-              foundColors.push(`#${r}${r}${g}${g}${b}${b}`);
-            } else {
-              foundColors.push(hex);
-            }
+            foundColors.push(normalizeColor(hex) || hex);
           });
         }
 
@@ -428,6 +914,10 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
       };
 
       const extractedColors = extractColors(promptLower);
+      const palette = activeSpec
+        ? specPalette(activeSpec)
+        : resolvePalette(promptLower).palette;
+      const paletteColors = getPaletteColors(palette, 20);
 
       // Get ECharts configuration
       const echartsConfig = getEChartsConfig(chartType);
@@ -438,15 +928,344 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
         chartType = "bar";
       }
 
+      // Date labels go on a continuous time axis unless the prompt asks
+      // for plain categories; "day first" settles DD/MM vs MM/DD
+      const nameTemporal = dataKeys.profile.fields[nameKeyToUse]?.temporal;
+      const dateOrder = parseDateOrder(prompt);
+      const nameFormat = nameTemporal && {
+        ...nameTemporal,
+        ...(dateOrder && { order: dateOrder, ambiguous: false }),
+      };
+      const useTimeAxis =
+        nameFormat &&
+        !/category axis|as categories|no time axis/.test(promptLower);
+      const notes: string[] = [...fieldSet.errors];
+      if (nameFormat?.ambiguous) {
+        notes.push(
+          `Dates read as ${
+            nameFormat.order === "dmy" ? "DD/MM" : "MM/DD"
+          }; say "day first" or "month first" to change`
+        );
+      }
+
       const isStacked =
         chartType === "stackedbar" || chartType === "stackedarea";
       const isGrouped = chartType === "groupedbar";
 
+      // Hierarchical charts read nested children directly, so they get the
+      // raw rows when flattening would break those arrays apart
+      const isHierarchical = ["tree", "treemap", "sunburst"].includes(
+        chartType
+      );
+
+      // "monthly revenue" buckets dated rows by month; the header picker
+      // overrides the prompt and a spec replays its own bucketing
+      const canResample =
+        Boolean(nameFormat) && AGGREGATE_CHART_TYPES.includes(chartType);
+      const requestedResample = activeSpec
+        ? activeSpec.options.resample
+        : activeResampleChoice
+        ? activeResampleChoice.resample ?? undefined
+        : parseResampleOptions(prompt, isMeasureWord);
+      const resample =
+        canResample && nameFormat ? requestedResample : undefined;
+
+      // Resampled labels are ISO dates, weeks and quarters; bare years read
+      // better as categories
+      const timeAxis = !useTimeAxis
+        ? undefined
+        : !resample
+        ? nameFormat
+        : resample.bucket === "year"
+        ? undefined
+        : DEFAULT_TEMPORAL_FORMAT;
+
+      // Group-by applies when labels repeat, or always for counts, which
+      // replace the values; resampling already combines each bucket's rows
+      const requestedAggregation = activeSpec
+        ? activeSpec.options.aggregation
+        : groupByRequest?.aggregation;
+
+      // Pivoting combines rows sharing a (label, series) pair itself, with
+      // the bucket's aggregation when the result is resampled next
+      const pivot = seriesKeyToUse
+        ? pivotRows(
+            filterSet.rows,
+            nameKeyToUse,
+            seriesKeyToUse,
+            valueKeyToUse,
+            resample?.aggregation ?? requestedAggregation
+          )
+        : undefined;
+      if (pivot) dataKeysToUse = pivot.seriesKeys.join(",");
+
+      const aggregation =
+        !resample &&
+        requestedAggregation &&
+        (pivot
+          ? pivot.combined
+          : AGGREGATE_CHART_TYPES.includes(chartType) &&
+            (requestedAggregation === "count" ||
+              requestedAggregation === "distinct" ||
+              hasRepeatedLabels(filterSet.rows, nameKeyToUse)))
+          ? requestedAggregation
+          : undefined;
+      const sourceRows = pivot ? pivot.data : filterSet.rows;
+      const aggregateKeys = Array.from(
+        new Set([
+          ...(dataKeysToUse ? dataKeysToUse.split(",") : [valueKeyToUse]),
+          ...dataKeys.numericKeys,
+        ])
+      ).filter((key) => key !== nameKeyToUse);
+
       // Use flattened data if available
-      const dataToUse =
-        dataKeys.flattenedData && dataKeys.flattenedData.length > 0
-          ? dataKeys.flattenedData
+      const preparedData =
+        (isHierarchical && hasNestedChildren(data)) ||
+        (chartType === "graph" && hasNetworkEnvelope(data))
+          ? data
+          : aggregation && !pivot
+          ? groupRows(
+              filterSet.rows,
+              nameKeyToUse,
+              aggregateKeys,
+              aggregation
+            )
+          : resample && nameFormat
+          ? resampleRows(
+              sourceRows,
+              nameKeyToUse,
+              nameFormat,
+              pivot
+                ? pivot.seriesKeys
+                : dataKeys.numericKeys.filter((key) => key !== nameKeyToUse),
+              resample
+            )
+          : sourceRows.length > 0
+          ? sourceRows
           : data;
+      if (preparedData === data && filterSet.filters.length > 0) {
+        notes.push("Filters don't apply to nested data");
+      }
+      if (resample && nameFormat && !pivot && preparedData !== data) {
+        // Label columns survive resampling only where a bucket agrees on them
+        const mixedLabels = dataKeys.stringKeys.filter(
+          (key) =>
+            key !== nameKeyToUse &&
+            (preparedData as FlattenedDataPoint[]).some((row) => !(key in row))
+        );
+        if (mixedLabels.length > 0) {
+          notes.push(
+            `${mixedLabels.join(", ")} vary within each ${
+              resample.bucket
+            }; left out of the resampled rows`
+          );
+        }
+      }
+
+      // "cumulative sales", "3-month moving average" or "YoY change" run
+      // over the combined rows in date order; last year's values need dated
+      // labels, so bare years compare with the previous row instead
+      const requestedTransform = activeSpec
+        ? activeSpec.options.transform
+        : parseWindowTransform(prompt, (phrase) =>
+            dataKeys.allKeys.some(
+              (key) =>
+                key.toLowerCase().replace(/[^a-z0-9]/g, "") ===
+                phrase.replace(/[^a-z0-9]/g, "")
+            )
+          );
+      const rowFormat = resample ? DEFAULT_TEMPORAL_FORMAT : nameFormat;
+      const transform =
+        requestedTransform &&
+        WINDOW_CHART_TYPES.includes(chartType) &&
+        preparedData !== data
+          ? requestedTransform.period === "year" &&
+            (!rowFormat || resample?.bucket === "year")
+            ? { ...requestedTransform, period: "previous" as const }
+            : requestedTransform
+          : undefined;
+      if (
+        requestedTransform?.period === "year" &&
+        transform?.period !== "year"
+      ) {
+        notes.push(
+          "Year-over-year needs dates; compared with the previous row"
+        );
+      }
+      if (
+        transform?.reset === "year" &&
+        (!rowFormat || resample?.bucket === "year")
+      ) {
+        notes.push("Year-to-date needs dates; summed across all rows");
+      }
+      const transformedData = transform
+        ? windowRows(
+            preparedData,
+            nameKeyToUse,
+            dataKeysToUse ? dataKeysToUse.split(",") : [valueKeyToUse],
+            transform,
+            resample?.bucket === "year" ? undefined : rowFormat
+          )
+        : preparedData;
+
+      // "top 10 agents by kpi score" or "sorted descending"; treemaps rank
+      // their top-level branches instead of rows
+      const parsedRank = activeSpec
+        ? activeSpec.options.rank
+        : parseRankOptions(prompt, nameKeyToUse, (word) =>
+            findKeyForNoun(word, dataKeys.allKeys)
+          );
+      const rank =
+        parsedRank &&
+        (AGGREGATE_CHART_TYPES.includes(chartType) ||
+          PIVOT_CHART_TYPES.includes(chartType) ||
+          chartType === "treemap")
+          ? {
+              ...parsedRank,
+              other:
+                Boolean(parsedRank.other) &&
+                OTHER_CHART_TYPES.includes(chartType),
+            }
+          : undefined;
+      const dataToUse =
+        rank && !isHierarchical
+          ? rankRows(
+              transformedData,
+              nameKeyToUse,
+              dataKeysToUse ? dataKeysToUse.split(",") : [valueKeyToUse],
+              rank
+            )
+          : transformedData;
+
+      // Category columns become hierarchy levels, coarsest first: the ones
+      // named in the prompt, otherwise every string column
+      let levelKeys: string[] | undefined;
+      if (isHierarchical) {
+        const mentionedLevels = mentionedKeys.filter((key) =>
+          dataKeys.stringKeys.includes(key)
+        );
+        const candidates =
+          mentionedLevels.length >= 2 ? mentionedLevels : dataKeys.stringKeys;
+        const cardinality = (key: string) =>
+          new Set(dataToUse.map((item) => String(item[key] ?? ""))).size;
+        levelKeys = [...candidates].sort(
+          (a, b) => cardinality(a) - cardinality(b)
+        );
+        const { cycleBreaks = [] } = buildHierarchy(dataToUse, {
+          nameKey: nameKeyToUse,
+          valueKey: valueKeyToUse,
+          levelKeys: activeSpec ? activeSpec.options.levelKeys : levelKeys,
+        });
+        if (cycleBreaks.length > 0) {
+          notes.push(
+            `Parent links loop back on themselves; ${cycleBreaks.join(
+              ", "
+            )} shown at the top level`
+          );
+        }
+      }
+
+      // Explicit "csat in green" mappings win; remaining prompt colors are
+      // used in order, otherwise names keep their session palette color.
+      // An imported spec replays the colors it recorded.
+      const categoryNames = Array.from(
+        new Set([
+          ...dataToUse.map((item) => String(item[nameKeyToUse] ?? "")),
+          ...(pivot ? pivot.seriesKeys : []),
+        ])
+      );
+      const explicitColors = activeSpec
+        ? activeSpec.seriesColors
+        : parseExplicitColors(
+            promptLower,
+            (word) =>
+              categoryNames.find((name) => name.toLowerCase() === word) ||
+              findKeyForWord(word, dataKeys.allKeys)
+          );
+      const boundColors = Object.values(explicitColors);
+      const listedColors = activeSpec
+        ? []
+        : (extractedColors || []).filter(
+            (color) => !boundColors.includes(color)
+          );
+      const colors = activeSpec
+        ? activeSpec.colors
+        : listedColors.length > 0
+        ? listedColors
+        : paletteColors;
+      const seriesColors: Record<string, string> = {};
+      const colorFor = (name: string, idx: number): string => {
+        const color =
+          explicitColors[name] ??
+          (rank?.other && name === OTHER_LABEL ? OTHER_COLOR : undefined) ??
+          (listedColors.length > 0
+            ? listedColors[idx % listedColors.length]
+            : colorRegistryRef.current.colorFor(
+                palette,
+                name,
+                boundColors
+              ));
+        seriesColors[name] = color;
+        return color;
+      };
+
+      // "growth on the right axis", "sales as bars"; series the prompt
+      // leaves open get an axis by their scale
+      const plottedKeys = dataKeysToUse
+        ? dataKeysToUse.split(",")
+        : [valueKeyToUse];
+      const comboSeries =
+        chartType === "combo" && !activeSpec
+          ? planComboSeries(
+              dataToUse,
+              plottedKeys,
+              parseComboRequest(prompt, (word) =>
+                findKeyForNoun(word, plottedKeys)
+              )
+            )
+          : undefined;
+
+      // Prompt-derived element options; an imported spec supplies its own
+      const promptOptions: ChartSpecOptions = {
+        isStacked,
+        isGrouped,
+        hasTrendline,
+        multipleTrendlines,
+        ...(hasTrendline && { trendline: parseTrendlineOptions(prompt) }),
+        missingValues: parseMissingValuePolicy(prompt),
+        resample,
+        aggregation,
+        seriesKey: seriesKeyToUse,
+        rank,
+        transform,
+        comboSeries,
+        ...(chartType === "histogram" && {
+          histogram: parseHistogramOptions(prompt),
+        }),
+        ...(chartType === "density" && {
+          density: parseDensityOptions(prompt),
+        }),
+        ...(chartType === "boxplot" && { groupKey: groupKeyToUse, showMean }),
+        ...(isHierarchical && { levelKeys }),
+        ...(chartType === "candlestick" && {
+          movingAverages: parseMovingAverages(prompt),
+        }),
+        ...(chartType === "graph" && {
+          network: {
+            ...parseNetworkOptions(prompt),
+            categoryKey: colorByKey,
+          },
+        }),
+        ...(chartType === "heatmap" && {
+          heatmap: {
+            yKey: heatmapYKey,
+            aggregation: parseAggregation(prompt, "sum", isMeasureWord),
+            diverging:
+              /\bdiverging\b/.test(promptLower) ||
+              palette.kind === "diverging",
+          },
+        }),
+      };
 
       // Generate ECharts option
       const elementConfig: EChartsElementConfig = {
@@ -455,20 +1274,48 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
         dataKeys: dataKeysToUse
           ? dataKeysToUse.split(",").map((k) => k.trim())
           : undefined,
-        colors:
-          extractedColors && extractedColors.length > 0
-            ? extractedColors
-            : getRandomColorPalette(20),
-        isStacked,
-        isGrouped,
-        hasTrendline,
-        multipleTrendlines,
+        colors,
+        colorFor,
+        // Listed colors also make the ramp of heatmap and calendar scales
+        palette:
+          listedColors.length > 0 ? customPalette(listedColors) : palette,
+        timeAxis,
+        ...(activeSpec ? activeSpec.options : promptOptions),
         data: dataToUse,
       };
 
-      const echartsOption = echartsConfig
-        ? echartsConfig.generateOption(elementConfig)
-        : null;
+      // Let the chart type reject data it can't represent faithfully; a
+      // builder that throws (e.g. on a hand-edited spec) reports an error
+      // instead of breaking the page
+      let validationError: string | null = null;
+      let echartsOption: EChartsOption | null = null;
+      try {
+        validationError = echartsConfig?.validate?.(elementConfig) ?? null;
+        echartsOption =
+          echartsConfig && !validationError
+            ? applyMeasureLabels(
+                elementConfig,
+                applyTransformLabels(
+                  elementConfig,
+                  echartsConfig.generateOption(elementConfig)
+                )
+              )
+            : null;
+      } catch (generationError) {
+        validationError = `Could not build the ${chartType} chart: ${
+          generationError instanceof Error
+            ? generationError.message
+            : String(generationError)
+        }`;
+      }
+      if (validationError) {
+        const message = validationError;
+        setTimeout(() => {
+          setChartConfig(null);
+          setError(message);
+        }, 0);
+        return;
+      }
 
       if (!echartsOption) {
         // Use setTimeout to avoid setState in effect
@@ -488,11 +1335,19 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
           valueKey: valueKeyToUse,
           ...(dataKeysToUse && { dataKeys: dataKeysToUse }),
         },
-        colors:
-          extractedColors && extractedColors.length > 0
-            ? extractedColors
-            : getRandomColorPalette(20),
-        promptHash: dataPromptHash,
+        colors,
+        promptHash: generationHash,
+        ...(notes.length > 0 && { notes }),
+        canResample,
+        resample,
+        spec: createChartSpec(
+          chartType,
+          activeSpec ? activeSpec.prompt : prompt,
+          elementConfig,
+          seriesColors,
+          fieldSet.fields,
+          filterSet.filters
+        ),
       };
 
       // Use setTimeout to avoid setState in effect warning
@@ -505,9 +1360,20 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
       previousHashRef.current = "";
       setTimeout(() => {
         setChartConfig(null);
+        setError(null);
       }, 0);
     }
-  }, [data, prompt, dataKeys, dataPromptHash]);
+  }, [
+    data,
+    prompt,
+    dataKeys,
+    dataPromptHash,
+    importedSpec,
+    resampleChoice,
+    fieldSet,
+    customFields,
+    filterSet,
+  ]);
 
   const renderChart = () => {
     if (!data || data.length === 0) {
@@ -522,6 +1388,16 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
       );
     }
 
+    if (error) {
+      return (
+        <div className="error-state">
+          <div className="error-state-icon">⚠️</div>
+          <p className="error-state-title">Chart Generation Error</p>
+          <p className="error-state-message">{error}</p>
+        </div>
+      );
+    }
+
     if (!chartConfig) {
       return (
         <div className="empty-state">
@@ -534,18 +1410,8 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
       );
     }
 
-    if (error) {
-      return (
-        <div className="error-state">
-          <div className="error-state-icon">⚠️</div>
-          <p className="error-state-title">Chart Generation Error</p>
-          <p className="error-state-message">{error}</p>
-        </div>
-      );
-    }
-
     return (
-      <div className="chart-wrapper">
+      <div className="chart-wrapper" ref={chartWrapperRef}>
         <ReactECharts
           key={chartConfig.promptHash || chartConfig.chartType}
           option={chartConfig.echartsOption}
@@ -571,11 +1437,154 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
     return "Generated Chart";
   };
 
+  // Export at the on-screen size so the layout matches what the user sees
+  const handleExport = async (choice: string) => {
+    if (!chartConfig || !choice) return;
+    const [format, background] = choice.split("-") as [
+      ExportFormat,
+      ExportBackground | undefined
+    ];
+    const wrapper = chartWrapperRef.current;
+    setIsExporting(true);
+    setActionError(null);
+    try {
+      await exportChart(format, chartConfig.echartsOption, {
+        ...DEFAULT_EXPORT_OPTIONS,
+        title: getChartTitle(),
+        ...(wrapper &&
+          wrapper.clientWidth > 0 && {
+            width: wrapper.clientWidth,
+            height: wrapper.clientHeight,
+          }),
+        ...(background && { background }),
+      });
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to export chart"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSpecAction = async (action: string) => {
+    setActionError(null);
+    if (action === "import") {
+      specInputRef.current?.click();
+      return;
+    }
+    const spec = chartConfig?.spec;
+    if (!spec) return;
+    const specJson = serializeChartSpec(spec);
+    try {
+      if (action === "copy") {
+        await navigator.clipboard.writeText(specJson);
+      } else if (action === "download") {
+        downloadBlob(
+          new Blob([specJson], { type: "application/json" }),
+          `${toFileName(getChartTitle())}.chart.json`
+        );
+      }
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to export chart spec"
+      );
+    }
+  };
+
+  // Imported specs rebuild the chart from the current data and prompt
+  const handleSpecFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const spec = parseChartSpec(await file.text());
+      setImportedSpec({ spec, prompt, importedAt: Date.now() });
+      setActionError(null);
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to import chart spec"
+      );
+    } finally {
+      if (specInputRef.current) specInputRef.current.value = "";
+    }
+  };
+
+  const isSpecActive = importedSpec !== null && importedSpec.prompt === prompt;
+
+  const handleResampleChange = (
+    bucket: TimeBucket | "none",
+    aggregation: AggregationType
+  ) => {
+    setResampleChoice({
+      resample: bucket === "none" ? null : { bucket, aggregation },
+      prompt,
+    });
+  };
+
+  // Header-defined fields may read any column, including earlier ones
+  const handleAddField = () => {
+    if (!fieldDraft) return;
+    const field = {
+      name: fieldDraft.name.trim(),
+      expression: fieldDraft.expression.trim(),
+    };
+    const fieldProblem = validateComputedField(field, dataKeys.allKeys);
+    if (fieldProblem) {
+      setFieldError(fieldProblem);
+      return;
+    }
+    setCustomFields([...customFields, field]);
+    setFieldDraft(null);
+    setFieldError(null);
+  };
+
+  // Header filters are kept; prompt and spec filters are dismissed for the
+  // current prompt
+  const handleRemoveFilter = (filter: DataFilter) => {
+    if (customFilters.includes(filter)) {
+      setCustomFilters(customFilters.filter((item) => item !== filter));
+      return;
+    }
+    const dismissed =
+      filterDismissal && filterDismissal.prompt === prompt
+        ? filterDismissal.labels
+        : [];
+    setFilterDismissal({
+      labels: [...dismissed, describeFilter(filter)],
+      prompt,
+    });
+  };
+
+  const handleAddFilter = () => {
+    if (!filterDraft) return;
+    const { key, operator } = filterDraft;
+    const texts = (
+      operator === "between"
+        ? [filterDraft.value, filterDraft.value2]
+        : operator === "in" || operator === "notIn"
+        ? filterDraft.value.split(",")
+        : [filterDraft.value]
+    )
+      .map((text) => text.trim())
+      .filter(Boolean);
+    if (texts.length < (operator === "between" ? 2 : 1)) {
+      setFilterError("Enter a value to filter by");
+      return;
+    }
+    const isNumeric = dataKeys.numericKeys.includes(key);
+    const values = texts.map((text) =>
+      isNumeric ? toFiniteNumber(text) ?? text : text
+    );
+    setCustomFilters([...customFilters, { key, operator, values }]);
+    setFilterDraft(null);
+    setFilterError(null);
+  };
+
   // Get chart type badge color
   const getChartTypeBadgeClass = () => {
     if (!chartConfig) return "";
     const type = chartConfig.chartType.toLowerCase();
-    if (["bar", "stackedbar", "groupedbar"].includes(type)) return "badge-blue";
+    if (["bar", "stackedbar", "groupedbar", "combo"].includes(type))
+      return "badge-blue";
     if (["line", "area", "stackedarea"].includes(type)) return "badge-green";
     if (["pie", "donut", "sunburst"].includes(type)) return "badge-purple";
     if (["scatter", "bubble", "effectscatter"].includes(type))
@@ -595,12 +1604,330 @@ const ChartGenerator = ({ data, prompt }: ChartGeneratorProps) => {
             </span>
           )}
         </div>
-        {chartConfig && data && data.length > 0 && (
+        {data && data.length > 0 && (
           <div className="chart-stats">
-            <span className="stat-item">
-              <span className="stat-label">Data Points:</span>
-              <span className="stat-value">{data.length}</span>
-            </span>
+            {chartConfig && (
+              <span className="stat-item">
+                <span className="stat-label">Data Points:</span>
+                <span className="stat-value">
+                  {filterSet.filters.length > 0
+                    ? `${filterSet.rows.length} of ${data.length}`
+                    : data.length}
+                </span>
+              </span>
+            )}
+            {chartConfig?.notes?.map((note) => (
+              <span key={note} className="stat-item stat-note">
+                {note}
+              </span>
+            ))}
+            {filterSet.filters.map((filter) => (
+              <span key={describeFilter(filter)} className="stat-item">
+                <span className="stat-value">{describeFilter(filter)}</span>
+                <button
+                  type="button"
+                  className="stat-clear"
+                  onClick={() => handleRemoveFilter(filter)}
+                  aria-label={`Remove filter ${describeFilter(filter)}`}
+                  title="Remove filter"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            {filterDraft ? (
+              <form
+                className="field-form"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleAddFilter();
+                }}
+              >
+                <select
+                  className="header-select"
+                  value={filterDraft.key}
+                  onChange={(e) =>
+                    setFilterDraft({ ...filterDraft, key: e.target.value })
+                  }
+                  aria-label="Filter field"
+                >
+                  {dataKeys.allKeys.map((key) => (
+                    <option key={key} value={key}>
+                      {key} ({dataKeys.profile.fields[key]?.type ?? "string"})
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="header-select"
+                  value={filterDraft.operator}
+                  onChange={(e) =>
+                    setFilterDraft({
+                      ...filterDraft,
+                      operator: e.target.value as FilterOperator,
+                    })
+                  }
+                  aria-label="Filter condition"
+                >
+                  {FILTER_OPERATORS.map((operator) => (
+                    <option key={operator} value={operator}>
+                      {FILTER_LABELS[operator]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className="field-input"
+                  value={filterDraft.value}
+                  onChange={(e) =>
+                    setFilterDraft({ ...filterDraft, value: e.target.value })
+                  }
+                  placeholder={
+                    filterDraft.operator === "in" ||
+                    filterDraft.operator === "notIn"
+                      ? "North, South"
+                      : "value"
+                  }
+                  aria-label="Filter value"
+                  autoFocus
+                />
+                {filterDraft.operator === "between" && (
+                  <>
+                    <span className="field-equals">and</span>
+                    <input
+                      className="field-input"
+                      value={filterDraft.value2}
+                      onChange={(e) =>
+                        setFilterDraft({
+                          ...filterDraft,
+                          value2: e.target.value,
+                        })
+                      }
+                      placeholder="value"
+                      aria-label="Filter upper bound"
+                    />
+                  </>
+                )}
+                <button type="submit" className="header-button">
+                  Add
+                </button>
+                <button
+                  type="button"
+                  className="stat-clear"
+                  onClick={() => {
+                    setFilterDraft(null);
+                    setFilterError(null);
+                  }}
+                  aria-label="Cancel filter"
+                  title="Cancel"
+                >
+                  ×
+                </button>
+                {filterError && (
+                  <span className="action-error">{filterError}</span>
+                )}
+              </form>
+            ) : (
+              <button
+                type="button"
+                className="header-button"
+                onClick={() =>
+                  setFilterDraft({
+                    key: dataKeys.nameKey || dataKeys.allKeys[0] || "",
+                    operator: "in",
+                    value: "",
+                    value2: "",
+                  })
+                }
+                title="Show only rows that match a condition"
+                aria-label="Add filter"
+              >
+                Filter
+              </button>
+            )}
+            {customFields.map((field) => (
+              <span
+                key={field.name}
+                className="stat-item"
+                title={`${field.name} = ${field.expression}`}
+              >
+                <span className="stat-label">ƒx</span>
+                <span className="stat-value">{field.name}</span>
+                <button
+                  type="button"
+                  className="stat-clear"
+                  onClick={() =>
+                    setCustomFields(
+                      customFields.filter((item) => item.name !== field.name)
+                    )
+                  }
+                  aria-label={`Remove field ${field.name}`}
+                  title={`Remove field ${field.name}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            {fieldDraft ? (
+              <form
+                className="field-form"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleAddField();
+                }}
+              >
+                <input
+                  className="field-input"
+                  value={fieldDraft.name}
+                  onChange={(e) =>
+                    setFieldDraft({ ...fieldDraft, name: e.target.value })
+                  }
+                  placeholder="solve_rate"
+                  aria-label="Field name"
+                  autoFocus
+                />
+                <span className="field-equals">=</span>
+                <input
+                  className="field-input field-expression"
+                  value={fieldDraft.expression}
+                  onChange={(e) =>
+                    setFieldDraft({ ...fieldDraft, expression: e.target.value })
+                  }
+                  placeholder="round(solved / total * 100, 1)"
+                  aria-label="Field expression"
+                />
+                <button type="submit" className="header-button">
+                  Add
+                </button>
+                <button
+                  type="button"
+                  className="stat-clear"
+                  onClick={() => {
+                    setFieldDraft(null);
+                    setFieldError(null);
+                  }}
+                  aria-label="Cancel computed field"
+                  title="Cancel"
+                >
+                  ×
+                </button>
+                {fieldError && (
+                  <span className="action-error">{fieldError}</span>
+                )}
+              </form>
+            ) : (
+              <button
+                type="button"
+                className="header-button"
+                onClick={() => setFieldDraft({ name: "", expression: "" })}
+                title="Add a computed field, e.g. revenue - cost"
+                aria-label="Add computed field"
+              >
+                ƒx
+              </button>
+            )}
+            {chartConfig?.canResample && !isSpecActive && (
+              <>
+                <select
+                  className="header-select"
+                  value={chartConfig.resample?.bucket ?? "none"}
+                  onChange={(e) =>
+                    handleResampleChange(
+                      e.target.value as TimeBucket | "none",
+                      chartConfig.resample?.aggregation ?? "sum"
+                    )
+                  }
+                  title="Group dates into time buckets"
+                  aria-label="Resample"
+                >
+                  <option value="none">All points</option>
+                  {TIME_BUCKETS.map((bucket) => (
+                    <option key={bucket} value={bucket}>
+                      {BUCKET_LABELS[bucket]}
+                    </option>
+                  ))}
+                </select>
+                {chartConfig.resample && (
+                  <select
+                    className="header-select"
+                    value={chartConfig.resample.aggregation}
+                    onChange={(e) =>
+                      handleResampleChange(
+                        chartConfig.resample?.bucket ?? "month",
+                        e.target.value as AggregationType
+                      )
+                    }
+                    title="How values in a time bucket are combined"
+                    aria-label="Resample aggregation"
+                  >
+                    {(
+                      Object.keys(AGGREGATION_LABELS) as AggregationType[]
+                    ).map((aggregation) => (
+                      <option key={aggregation} value={aggregation}>
+                        {AGGREGATION_LABELS[aggregation]}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </>
+            )}
+            {isSpecActive && (
+              <span className="stat-item">
+                <span className="stat-label">Spec:</span>
+                <span className="stat-value">{importedSpec.spec.chartType}</span>
+                <button
+                  type="button"
+                  className="stat-clear"
+                  onClick={() => setImportedSpec(null)}
+                  aria-label="Stop using imported spec"
+                  title="Stop using imported spec"
+                >
+                  ×
+                </button>
+              </span>
+            )}
+            {chartConfig && !error && (
+              <select
+                className="header-select"
+                value=""
+                disabled={isExporting}
+                onChange={(e) => handleExport(e.target.value)}
+                title={actionError || "Export chart"}
+                aria-label="Export chart"
+              >
+                <option value="">
+                  {isExporting ? "Exporting…" : "Export"}
+                </option>
+                <option value="png-white">PNG (white)</option>
+                <option value="png-transparent">PNG (transparent)</option>
+                <option value="svg-white">SVG</option>
+                <option value="pdf">PDF</option>
+                <option value="html">HTML</option>
+              </select>
+            )}
+            <select
+              className="header-select"
+              value=""
+              onChange={(e) => handleSpecAction(e.target.value)}
+              aria-label="Chart spec"
+            >
+              <option value="">Spec</option>
+              <option value="copy" disabled={!chartConfig?.spec}>
+                Copy spec
+              </option>
+              <option value="download" disabled={!chartConfig?.spec}>
+                Download spec
+              </option>
+              <option value="import">Import spec…</option>
+            </select>
+            <input
+              ref={specInputRef}
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => handleSpecFile(e.target.files?.[0])}
+            />
+            {actionError && (
+              <span className="action-error">{actionError}</span>
+            )}
           </div>
         )}
       </div>
@@ -11,6 +11,10 @@ export interface ChartTypeConfig {
 }
 
 import type { ChartElementProps } from "../types";
+import { PALETTES, getPaletteColors, getRandomColorPalette } from "./palettes";
+
+// Defined with the palettes, shared with the ECharts configuration
+export { generateRandomColors, getRandomColorPalette } from "./palettes";
 
 export interface ChartElement {
   type: string;
@@ -29,40 +33,17 @@ export interface ElementConfig {
   multipleTrendlines?: boolean;
 }
 
-// Generate random vibrant colors
-export const generateRandomColor = (): string => {
-  // Generate a random hue (0-360) with good saturation and lightness
-  const hue = Math.floor(Math.random() * 360);
-  const saturation = 60 + Math.floor(Math.random() * 40); // 60-100%
-  const lightness = 40 + Math.floor(Math.random() * 30); // 40-70%
-  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-};
-
-// Generate an array of random colors
-export const generateRandomColors = (count: number): string[] => {
-  return Array.from({ length: count }, () => generateRandomColor());
-};
-
-// Generate a palette of random colors (cached per session)
-let cachedColors: string[] = [];
-export const getRandomColorPalette = (count: number = 20): string[] => {
-  if (cachedColors.length < count) {
-    cachedColors = generateRandomColors(Math.max(count, 20));
-  }
-  return cachedColors.slice(0, count);
-};
-
-// Get a random color from the palette by index
+// Get a color from the default palette by index
 export const getRandomColor = (index: number = 0): string => {
   const palette = getRandomColorPalette();
   return palette[index % palette.length];
 };
 
-// Default color palette - now uses random colors
+// Default color palette
 export const DEFAULT_COLORS = getRandomColorPalette(20);
 
-// Trendline colors - also random but distinct
-export const TRENDLINE_COLORS = generateRandomColors(10);
+// Trendline colors - distinct from the series palette
+export const TRENDLINE_COLORS = getPaletteColors(PALETTES.okabeIto, 10);
 
 // Generate common Cartesian chart elements (axes, grid, tooltip, legend)
 export const generateCartesianElements = (
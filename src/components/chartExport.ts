@@ -0,0 +1,292 @@
+// Chart export: SVG, high-DPI PNG, PDF and standalone HTML. Every format
+// re-renders the option off screen and adds the chart title above it.
+import * as echarts from "echarts";
+
+export type ExportFormat = "svg" | "png" | "pdf" | "html";
+export type ExportBackground = "white" | "transparent";
+
+export interface ExportOptions {
+  title: string;
+  width: number; // CSS pixels of the chart area, excluding the title band
+  height: number;
+  background: ExportBackground; // PDF and HTML are always white
+  pixelRatio: number; // Raster scale for PNG and PDF
+}
+
+export const DEFAULT_EXPORT_OPTIONS: Omit<ExportOptions, "title"> = {
+  width: 960,
+  height: 540,
+  background: "white",
+  pixelRatio: 2,
+};
+
+const TITLE_BAND = 48;
+const TITLE_COLOR = "#1a1a1a";
+const FONT_FAMILY =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+const escapeMarkup = (text: string) =>
+  text.replace(
+    /[<>&"']/g,
+    (char) =>
+      ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&#39;" }[
+        char
+      ] as string)
+  );
+
+// Exports are static, so skip the entry animation
+const staticOption = (option: echarts.EChartsOption): echarts.EChartsOption => ({
+  ...option,
+  animation: false,
+});
+
+export const renderChartSvg = (
+  option: echarts.EChartsOption,
+  options: ExportOptions
+): string => {
+  const { width, height, title } = options;
+  const chart = echarts.init(null, null, {
+    renderer: "svg",
+    ssr: true,
+    width,
+    height,
+  });
+  chart.setOption(staticOption(option));
+  const chartSvg = chart.renderToSVGString();
+  chart.dispose();
+
+  const totalHeight = height + TITLE_BAND;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${totalHeight}" viewBox="0 0 ${width} ${totalHeight}">`,
+    options.background === "white"
+      ? '<rect width="100%" height="100%" fill="#ffffff"/>'
+      : "",
+    `<text x="${width / 2}" y="${
+      TITLE_BAND / 2
+    }" text-anchor="middle" dominant-baseline="middle" font-family="${FONT_FAMILY}" font-size="20" font-weight="600" fill="${TITLE_COLOR}">${escapeMarkup(
+      title
+    )}</text>`,
+    `<g transform="translate(0, ${TITLE_BAND})">${chartSvg}</g>`,
+    "</svg>",
+  ].join("");
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to rasterize chart"));
+    image.src = src;
+  });
+
+// Canvas-rendered chart below a title band, at `pixelRatio` resolution
+const renderChartCanvas = async (
+  option: echarts.EChartsOption,
+  options: ExportOptions
+): Promise<HTMLCanvasElement> => {
+  const { width, height, pixelRatio, title } = options;
+  const transparent = options.background === "transparent";
+
+  const chart = echarts.init(document.createElement("div"), null, {
+    renderer: "canvas",
+    width,
+    height,
+  });
+  chart.setOption(staticOption(option));
+  const chartUrl = chart.getDataURL({
+    type: "png",
+    pixelRatio,
+    backgroundColor: transparent ? "transparent" : "#ffffff",
+  });
+  chart.dispose();
+  const chartImage = await loadImage(chartUrl);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round((height + TITLE_BAND) * pixelRatio);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+  context.scale(pixelRatio, pixelRatio);
+  if (!transparent) {
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, width, height + TITLE_BAND);
+  }
+  context.font = `600 20px ${FONT_FAMILY}`;
+  context.fillStyle = TITLE_COLOR;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(title, width / 2, TITLE_BAND / 2, width - 32);
+  context.drawImage(chartImage, 0, TITLE_BAND, width, height);
+  return canvas;
+};
+
+const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality?: number
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode image")),
+      type,
+      quality
+    );
+  });
+
+export const renderChartPng = async (
+  option: echarts.EChartsOption,
+  options: ExportOptions
+): Promise<Blob> =>
+  canvasToBlob(await renderChartCanvas(option, options), "image/png");
+
+// Single-page PDF holding the chart as a JPEG image; page size matches the
+// chart at 72 dpi (1 CSS px = 0.75 pt)
+export const renderChartPdf = async (
+  option: echarts.EChartsOption,
+  options: ExportOptions
+): Promise<Blob> => {
+  const canvas = await renderChartCanvas(option, {
+    ...options,
+    background: "white",
+  });
+  const jpeg = new Uint8Array(
+    await (await canvasToBlob(canvas, "image/jpeg", 0.92)).arrayBuffer()
+  );
+  const pageWidth = (options.width * 0.75).toFixed(2);
+  const pageHeight = ((options.height + TITLE_BAND) * 0.75).toFixed(2);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+  };
+
+  write("%PDF-1.4\n");
+  object("<< /Type /Catalog /Pages 2 0 R >>");
+  object("<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  object(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      "/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>"
+  );
+  offsets.push(length);
+  write(
+    `4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${canvas.width} ` +
+      `/Height ${canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 ` +
+      `/Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+  );
+  write(jpeg);
+  write("\nendstream\nendobj\n");
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => {
+    write(`${String(offset).padStart(10, "0")} 00000 n \n`);
+  });
+  write(
+    `trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  return new Blob(parts as BlobPart[], { type: "application/pdf" });
+};
+
+// Self-contained page with ECharts inlined. Formatter functions can't be
+// serialized, so those parts of the option fall back to ECharts defaults.
+export const renderChartHtml = async (
+  option: echarts.EChartsOption,
+  options: ExportOptions
+): Promise<string> => {
+  const { default: echartsSource } = await import(
+    "echarts/dist/echarts.min.js?raw"
+  );
+  // Keep "</script>" inside the embedded JSON from closing the tag
+  const optionJson = JSON.stringify(staticOption(option)).replace(
+    /</g,
+    "\\u003c"
+  );
+  const title = escapeMarkup(options.title);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${title}</title>
+<style>
+  body { margin: 0; padding: 24px; font-family: ${FONT_FAMILY}; background: #ffffff; }
+  h1 { margin: 0 0 16px; font-size: 20px; font-weight: 600; color: ${TITLE_COLOR}; text-align: center; }
+  #chart { width: 100%; max-width: ${options.width}px; height: ${options.height}px; margin: 0 auto; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div id="chart"></div>
+<script>${echartsSource.replace(/<\/script/gi, "<\\/script")}</script>
+<script>
+  var chart = echarts.init(document.getElementById("chart"));
+  chart.setOption(${optionJson});
+  window.addEventListener("resize", function () { chart.resize(); });
+</script>
+</body>
+</html>
+`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// File-system friendly name derived from a chart title
+export const toFileName = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "chart";
+
+// Render the option in the requested format and download it
+export const exportChart = async (
+  format: ExportFormat,
+  option: echarts.EChartsOption,
+  options: ExportOptions
+): Promise<void> => {
+  const baseName = toFileName(options.title);
+  switch (format) {
+    case "svg":
+      downloadBlob(
+        new Blob([renderChartSvg(option, options)], { type: "image/svg+xml" }),
+        `${baseName}.svg`
+      );
+      break;
+    case "png":
+      downloadBlob(await renderChartPng(option, options), `${baseName}.png`);
+      break;
+    case "pdf":
+      downloadBlob(await renderChartPdf(option, options), `${baseName}.pdf`);
+      break;
+    case "html":
+      downloadBlob(
+        new Blob([await renderChartHtml(option, options)], {
+          type: "text/html",
+        }),
+        `${baseName}.html`
+      );
+      break;
+  }
+};
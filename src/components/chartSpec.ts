@@ -0,0 +1,418 @@
+// Versioned, reusable chart definitions: everything needed to rebuild a
+// generated chart from new data without re-reading the prompt
+import {
+  ECHARTS_TYPE_CONFIGS,
+  type EChartsElementConfig,
+} from "./echartsConfig";
+import { compileExpression, type ComputedField } from "./expressions";
+import { FILTER_OPERATORS, type DataFilter } from "./filters";
+import { WINDOW_TRANSFORM_TYPES } from "./windowTransforms";
+import { TRENDLINE_MODELS } from "./regression";
+import { COMBO_AXES, COMBO_SERIES_TYPES } from "./combo";
+import {
+  CUSTOM_PALETTE_NAME,
+  type ColorPalette,
+  type PaletteKind,
+} from "./palettes";
+import type { MissingValuePolicy } from "./missingValues";
+import type { GraphLayout } from "./network";
+import type { SortDirection } from "./ranking";
+import { TIME_BUCKETS } from "./resample";
+import type {
+  AggregationType,
+  BinningMethod,
+  HistogramMode,
+  KernelType,
+} from "./statistics";
+
+export const CHART_SPEC_VERSION = 1;
+
+// Element config fields stored outside `options`, re-derived from the data
+// or only valid at runtime
+const NON_OPTION_KEYS = [
+  "nameKey",
+  "valueKey",
+  "dataKeys",
+  "colors",
+  "colorFor",
+  "palette",
+  "timeAxis",
+  "data",
+] as const;
+
+// Element options that are decided from the prompt rather than the data
+export type ChartSpecOptions = Omit<
+  EChartsElementConfig,
+  (typeof NON_OPTION_KEYS)[number]
+>;
+
+export interface ChartSpec {
+  version: number;
+  chartType: string;
+  prompt: string;
+  dataMapping: {
+    nameKey: string;
+    valueKey: string;
+    dataKeys?: string[];
+  };
+  palette: {
+    name: string;
+    kind: PaletteKind;
+    colors: string[];
+  };
+  colors: string[];
+  seriesColors: Record<string, string>; // Colors assigned to named series
+  options: ChartSpecOptions;
+  computedFields?: ComputedField[]; // Added to the data before mapping
+  filters?: DataFilter[]; // Applied to the rows before mapping
+  createdAt: string;
+}
+
+export const createChartSpec = (
+  chartType: string,
+  prompt: string,
+  config: EChartsElementConfig,
+  seriesColors: Record<string, string>,
+  computedFields: ComputedField[] = [],
+  filters: DataFilter[] = []
+): ChartSpec => {
+  const { nameKey, valueKey, colors, palette } = config;
+  // Pivoted series come from the data's labels, not from columns
+  const dataKeys = config.seriesKey ? undefined : config.dataKeys;
+  const options = Object.fromEntries(
+    Object.entries(config).filter(
+      ([key]) => !(NON_OPTION_KEYS as readonly string[]).includes(key)
+    )
+  ) as ChartSpecOptions;
+  return {
+    version: CHART_SPEC_VERSION,
+    chartType,
+    prompt,
+    dataMapping: { nameKey, valueKey, ...(dataKeys && { dataKeys }) },
+    palette: palette
+      ? { name: palette.name, kind: palette.kind, colors: palette.colors }
+      : { name: CUSTOM_PALETTE_NAME, kind: "categorical", colors },
+    colors,
+    seriesColors,
+    options,
+    ...(computedFields.length > 0 && { computedFields }),
+    ...(filters.length > 0 && { filters }),
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const serializeChartSpec = (spec: ChartSpec): string =>
+  JSON.stringify(spec, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isBoolean = (value: unknown) => typeof value === "boolean";
+
+const isString = (value: unknown) => typeof value === "string";
+
+const isPositive = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+// Absent, or passes `check`
+const optional =
+  (check: (value: unknown) => boolean) =>
+  (value: unknown): boolean =>
+    value === undefined || check(value);
+
+const oneOf =
+  <T extends string>(values: readonly T[]) =>
+  (value: unknown): boolean =>
+    (values as readonly unknown[]).includes(value);
+
+const AGGREGATIONS = oneOf<AggregationType>([
+  "sum",
+  "mean",
+  "count",
+  "distinct",
+  "min",
+  "max",
+  "median",
+]);
+
+// Shape of every element option a spec may carry, with the message shown
+// when an imported value doesn't fit, so a hand-edited spec can't reach a
+// chart builder with the wrong shape
+const OPTION_CHECKS: {
+  [K in keyof ChartSpecOptions]-?: [(value: unknown) => boolean, string];
+} = {
+  isStacked: [isBoolean, "must be true or false"],
+  isGrouped: [isBoolean, "must be true or false"],
+  hasTrendline: [isBoolean, "must be true or false"],
+  multipleTrendlines: [isBoolean, "must be true or false"],
+  showMean: [isBoolean, "must be true or false"],
+  groupKey: [isString, "must be a field name"],
+  seriesKey: [isString, "must be a field name"],
+  levelKeys: [isStringArray, "must be a list of field names"],
+  aggregation: [AGGREGATIONS, "must be a known aggregation"],
+  missingValues: [
+    oneOf<MissingValuePolicy>([
+      "gap",
+      "connect",
+      "zero",
+      "linear",
+      "previous",
+      "next",
+    ]),
+    "must be a known missing-value policy",
+  ],
+  movingAverages: [
+    (value) => Array.isArray(value) && value.every(isPositive),
+    "must be a list of positive windows",
+  ],
+  histogram: [
+    (value) =>
+      isRecord(value) &&
+      oneOf<BinningMethod>(["sturges", "freedman-diaconis", "scott", "fixed"])(
+        value.method
+      ) &&
+      oneOf<HistogramMode>(["count", "density", "cumulative"])(value.mode) &&
+      optional(isPositive)(value.binCount) &&
+      optional(isPositive)(value.binWidth),
+    "needs a known method and mode and positive bin sizes",
+  ],
+  density: [
+    (value) =>
+      isRecord(value) &&
+      oneOf<KernelType>(["gaussian", "epanechnikov"])(value.kernel) &&
+      isPositive(value.gridSize) &&
+      optional(isPositive)(value.bandwidth),
+    "needs a known kernel, a positive gridSize and bandwidth",
+  ],
+  heatmap: [
+    (value) =>
+      isRecord(value) &&
+      AGGREGATIONS(value.aggregation) &&
+      isBoolean(value.diverging) &&
+      optional(isString)(value.yKey),
+    "needs an aggregation, diverging and an optional yKey",
+  ],
+  network: [
+    (value) =>
+      isRecord(value) &&
+      oneOf<GraphLayout>(["force", "circular", "none"])(value.layout) &&
+      optional(isString)(value.categoryKey) &&
+      optional(isBoolean)(value.undirected),
+    'needs layout "force", "circular" or "none"',
+  ],
+  resample: [
+    (value) =>
+      isRecord(value) &&
+      oneOf(TIME_BUCKETS)(value.bucket) &&
+      AGGREGATIONS(value.aggregation),
+    "needs a known time bucket and aggregation",
+  ],
+  rank: [
+    (value) =>
+      isRecord(value) &&
+      oneOf<SortDirection>(["asc", "desc"])(value.direction) &&
+      optional(isPositive)(value.limit) &&
+      optional(isString)(value.sortKey) &&
+      optional(isBoolean)(value.other),
+    'needs direction "asc" or "desc" and a positive limit',
+  ],
+  transform: [
+    (value) =>
+      isRecord(value) &&
+      oneOf(WINDOW_TRANSFORM_TYPES)(value.type) &&
+      optional(isPositive)(value.window) &&
+      optional(oneOf(["previous", "year"]))(value.period) &&
+      optional(oneOf(["year"]))(value.reset),
+    "needs a known type and a positive window",
+  ],
+  trendline: [
+    (value) =>
+      isRecord(value) &&
+      oneOf(TRENDLINE_MODELS)(value.model) &&
+      optional(isPositive)(value.degree) &&
+      optional(isPositive)(value.span) &&
+      optional(isBoolean)(value.showEquation) &&
+      optional(
+        (confidence) =>
+          typeof confidence === "number" && confidence > 0 && confidence < 1
+      )(value.confidence),
+    "needs a known model and a confidence between 0 and 1",
+  ],
+  comboSeries: [
+    (value) =>
+      Array.isArray(value) &&
+      value.every(
+        (item) =>
+          isRecord(item) &&
+          isString(item.key) &&
+          oneOf(COMBO_SERIES_TYPES)(item.type) &&
+          oneOf(COMBO_AXES)(item.axis)
+      ),
+    "must be a list of { key, type, axis }",
+  ],
+};
+
+// Parse and validate a spec document; throws with a user-facing message
+export const parseChartSpec = (text: string): ChartSpec => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Chart spec is not valid JSON");
+  }
+  if (!isRecord(raw)) {
+    throw new Error("Chart spec must be a JSON object");
+  }
+  if (typeof raw.version !== "number") {
+    throw new Error("Chart spec is missing its version");
+  }
+  if (raw.version > CHART_SPEC_VERSION) {
+    throw new Error(
+      `Chart spec version ${raw.version} is newer than this app supports (${CHART_SPEC_VERSION})`
+    );
+  }
+  if (typeof raw.chartType !== "string" || !raw.chartType) {
+    throw new Error("Chart spec is missing chartType");
+  }
+  if (!ECHARTS_TYPE_CONFIGS[raw.chartType]) {
+    throw new Error(`Chart spec chartType "${raw.chartType}" is not supported`);
+  }
+
+  const mapping = raw.dataMapping;
+  if (
+    !isRecord(mapping) ||
+    typeof mapping.nameKey !== "string" ||
+    typeof mapping.valueKey !== "string" ||
+    (mapping.dataKeys !== undefined && !isStringArray(mapping.dataKeys))
+  ) {
+    throw new Error("Chart spec dataMapping needs nameKey and valueKey");
+  }
+
+  const options = isRecord(raw.options) ? raw.options : {};
+  Object.entries(options).forEach(([key, value]) => {
+    const check = Object.prototype.hasOwnProperty.call(OPTION_CHECKS, key)
+      ? OPTION_CHECKS[key as keyof ChartSpecOptions]
+      : undefined;
+    if (!check) {
+      throw new Error(`Chart spec options.${key} is not a known option`);
+    }
+    if (value !== undefined && !check[0](value)) {
+      throw new Error(`Chart spec options.${key} ${check[1]}`);
+    }
+  });
+
+  const computedFields = raw.computedFields;
+  if (
+    computedFields !== undefined &&
+    !(
+      Array.isArray(computedFields) &&
+      computedFields.every(
+        (field) =>
+          isRecord(field) &&
+          typeof field.name === "string" &&
+          typeof field.expression === "string"
+      )
+    )
+  ) {
+    throw new Error(
+      "Chart spec computedFields must be a list of { name, expression }"
+    );
+  }
+  (computedFields as ComputedField[] | undefined)?.forEach((field) => {
+    try {
+      compileExpression(field.expression);
+    } catch (error) {
+      throw new Error(
+        `Chart spec field "${field.name}": ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  });
+
+  const filters = raw.filters;
+  if (
+    filters !== undefined &&
+    !(
+      Array.isArray(filters) &&
+      filters.every(
+        (filter) =>
+          isRecord(filter) &&
+          typeof filter.key === "string" &&
+          (FILTER_OPERATORS as unknown[]).includes(filter.operator) &&
+          Array.isArray(filter.values) &&
+          filter.values.every(
+            (value) => typeof value === "string" || typeof value === "number"
+          )
+      )
+    )
+  ) {
+    throw new Error(
+      "Chart spec filters must be a list of { key, operator, values }"
+    );
+  }
+
+  const colors = isStringArray(raw.colors) ? raw.colors : [];
+  const palette = isRecord(raw.palette) ? raw.palette : {};
+  const seriesColors = isRecord(raw.seriesColors)
+    ? Object.fromEntries(
+        Object.entries(raw.seriesColors).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string"
+        )
+      )
+    : {};
+
+  return {
+    version: raw.version,
+    chartType: raw.chartType,
+    prompt: typeof raw.prompt === "string" ? raw.prompt : "",
+    dataMapping: {
+      nameKey: mapping.nameKey,
+      valueKey: mapping.valueKey,
+      ...(mapping.dataKeys !== undefined && {
+        dataKeys: mapping.dataKeys as string[],
+      }),
+    },
+    palette: {
+      name:
+        typeof palette.name === "string" ? palette.name : CUSTOM_PALETTE_NAME,
+      kind:
+        palette.kind === "sequential" || palette.kind === "diverging"
+          ? palette.kind
+          : "categorical",
+      colors: isStringArray(palette.colors) ? palette.colors : colors,
+    },
+    colors,
+    seriesColors,
+    // Every key was checked against OPTION_CHECKS above
+    options: options as ChartSpecOptions,
+    ...(computedFields !== undefined && {
+      computedFields: computedFields as ComputedField[],
+    }),
+    ...(filters !== undefined && { filters: filters as DataFilter[] }),
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : "",
+  };
+};
+
+// Rebuild the palette a spec was generated with
+export const specPalette = (spec: ChartSpec): ColorPalette => ({
+  ...spec.palette,
+  aliases: /$^/,
+});
+
+// Keys the spec maps that the new data doesn't have
+export const findMissingSpecKeys = (
+  spec: ChartSpec,
+  availableKeys: string[]
+): string[] =>
+  [
+    spec.dataMapping.nameKey,
+    spec.dataMapping.valueKey,
+    ...(spec.dataMapping.dataKeys || []),
+    ...(spec.options.seriesKey ? [spec.options.seriesKey] : []),
+    ...(spec.options.rank?.sortKey ? [spec.options.rank.sortKey] : []),
+    ...(spec.filters || []).map((filter) => filter.key),
+  ].filter((key) => key && !availableKeys.includes(key));
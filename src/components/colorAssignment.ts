@@ -0,0 +1,121 @@
+// Name-keyed color assignment so series keep their colors when columns are
+// added, removed or reordered
+import { getPaletteColors, type ColorPalette } from "./palettes";
+
+// CSS color names recognised in prompts
+export const NAMED_COLORS: Record<string, string> = {
+  red: "#ff0000",
+  blue: "#0066ff",
+  green: "#00cc00",
+  yellow: "#ffcc00",
+  orange: "#ff6600",
+  purple: "#9900cc",
+  pink: "#ff00cc",
+  teal: "#00cccc",
+  cyan: "#00ffff",
+  magenta: "#ff00ff",
+  lime: "#00ff00",
+  brown: "#8b4513",
+  black: "#000000",
+  white: "#ffffff",
+  gray: "#808080",
+  grey: "#808080",
+  navy: "#000080",
+  maroon: "#800000",
+  olive: "#808000",
+  aqua: "#00ffff",
+  silver: "#c0c0c0",
+  gold: "#ffd700",
+  indigo: "#4b0082",
+  violet: "#8a2be2",
+  coral: "#ff7f50",
+  salmon: "#fa8072",
+  turquoise: "#40e0d0",
+  khaki: "#f0e68c",
+  lavender: "#e6e6fa",
+  plum: "#dda0dd",
+  beige: "#f5f5dc",
+  tan: "#d2b48c",
+};
+
+const COLOR_TOKEN = `(#[0-9a-f]{6}\\b|#[0-9a-f]{3}\\b|rgba?\\([^)]+\\)|${Object.keys(
+  NAMED_COLORS
+).join("|")})`;
+
+// Convert a prompt color token (name, #rgb, #rrggbb, rgb()) to a CSS color
+export const normalizeColor = (token: string): string | undefined => {
+  const value = token.trim().toLowerCase();
+  if (NAMED_COLORS[value]) return NAMED_COLORS[value];
+  if (/^#[0-9a-f]{3}$/.test(value)) {
+    const [, r, g, b] = value;
+    return `#${r}${r}${g}${g}${b}${b}`;
+  }
+  if (/^#[0-9a-f]{6}$/.test(value) || /^rgba?\(/.test(value)) return value;
+  return undefined;
+};
+
+// Parse "csat in green, dsat in red", "green for csat" or "csat: #22aa55".
+// `resolveName` maps a prompt word to a series/category name.
+export const parseExplicitColors = (
+  prompt: string,
+  resolveName: (word: string) => string | undefined
+): Record<string, string> => {
+  const promptLower = prompt.toLowerCase();
+  const mappings: Record<string, string> = {};
+  const bind = (word: string, token: string) => {
+    const name = resolveName(word);
+    const color = normalizeColor(token);
+    if (name && color && !mappings[name]) {
+      mappings[name] = color;
+    }
+  };
+
+  const nameFirst = new RegExp(
+    "([\\w.-]+)(?:\\s+(?:in|as|is|colou?red|should be)\\s+|\\s*(?:=|:|->)\\s*)" +
+      `(?:the\\s+colou?r\\s+)?${COLOR_TOKEN}`,
+    "g"
+  );
+  for (const match of promptLower.matchAll(nameFirst)) {
+    bind(match[1], match[2]);
+  }
+
+  const colorFirst = new RegExp(`${COLOR_TOKEN}\\s+for\\s+([\\w.-]+)`, "g");
+  for (const match of promptLower.matchAll(colorFirst)) {
+    bind(match[2], match[1]);
+  }
+
+  return mappings;
+};
+
+export interface ColorRegistry {
+  // Color for a series/category name, assigning the next free palette color
+  // the first time a name is seen
+  colorFor: (palette: ColorPalette, name: string, reserved?: string[]) => string;
+  reset: () => void;
+}
+
+export const createColorRegistry = (): ColorRegistry => {
+  // One assignment table per palette so switching palettes starts fresh
+  const assignments = new Map<string, Map<string, string>>();
+
+  return {
+    colorFor: (palette, name, reserved = []) => {
+      let table = assignments.get(palette.name);
+      if (!table) {
+        table = new Map();
+        assignments.set(palette.name, table);
+      }
+      const existing = table.get(name);
+      if (existing) return existing;
+
+      const colors = getPaletteColors(palette, palette.colors.length);
+      const taken = new Set([...table.values(), ...reserved]);
+      const color =
+        colors.find((candidate) => !taken.has(candidate)) ||
+        colors[table.size % colors.length];
+      table.set(name, color);
+      return color;
+    },
+    reset: () => assignments.clear(),
+  };
+};
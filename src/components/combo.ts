@@ -0,0 +1,122 @@
+// Combo charts: each series drawn as bar, line or area on a left or right
+// value axis, e.g. "sales as bars and growth on the right axis"
+import type { ChartDataPoint } from "../types";
+import { toFiniteNumber } from "./statistics";
+
+export type ComboSeriesType = "bar" | "line" | "area";
+export type ComboAxis = "left" | "right";
+
+export const COMBO_SERIES_TYPES: ComboSeriesType[] = ["bar", "line", "area"];
+export const COMBO_AXES: ComboAxis[] = ["left", "right"];
+
+export interface ComboSeries {
+  key: string;
+  type: ComboSeriesType;
+  axis: ComboAxis;
+}
+
+// What a prompt pins down per series; the rest is planned from the data
+export interface ComboRequest {
+  types: Record<string, ComboSeriesType>;
+  axes: Record<string, ComboAxis>;
+  defaultType?: ComboSeriesType; // "line chart" with a right axis: all lines
+}
+
+// Series whose largest value is this many times smaller than the biggest
+// series' get their own axis
+const SCALE_RATIO = 10;
+
+// "growth as a line", "sales as bars"
+const TYPE_PATTERN =
+  /\b([\w.]+)\s+(?:as|in)\s+(?:an?\s+)?(bars?|columns?|lines?|areas?)\b/g;
+// "growth on the right axis", "orders on secondary y-axis"
+const AXIS_PATTERN =
+  /\b([\w.]+)\s+on\s+(?:the\s+)?(right|left|secondary|primary|second|first)\b/g;
+
+const toSeriesType = (word: string): ComboSeriesType =>
+  word.startsWith("line") ? "line" : word.startsWith("area") ? "area" : "bar";
+
+// Largest absolute value of a column, 0 when it has none
+const magnitude = (rows: ChartDataPoint[], key: string) =>
+  rows.reduce((max, row) => {
+    const value = toFiniteNumber(row[key]);
+    return value === null ? max : Math.max(max, Math.abs(value));
+  }, 0);
+
+// Series types and axes asked for in a prompt. `resolveKey` maps a prompt
+// word to one of the plotted keys.
+export const parseComboRequest = (
+  prompt: string,
+  resolveKey: (word: string) => string | undefined
+): ComboRequest => {
+  const promptLower = prompt.toLowerCase();
+  const types: Record<string, ComboSeriesType> = {};
+  const axes: Record<string, ComboAxis> = {};
+  for (const match of promptLower.matchAll(TYPE_PATTERN)) {
+    const key = resolveKey(match[1]);
+    if (key) types[key] = toSeriesType(match[2]);
+  }
+  for (const match of promptLower.matchAll(AXIS_PATTERN)) {
+    const key = resolveKey(match[1]);
+    if (key) {
+      axes[key] = ["left", "primary", "first"].includes(match[2])
+        ? "left"
+        : "right";
+    }
+  }
+  // A single mark named for the whole chart applies to every series
+  const marks = (["bar", "line", "area"] as const).filter((type) =>
+    new RegExp(`\\b${type}s?\\b`).test(
+      promptLower.replace(TYPE_PATTERN, "")
+    )
+  );
+  return {
+    types,
+    axes,
+    ...(marks.length === 1 && { defaultType: marks[0] }),
+  };
+};
+
+// Assign each key a mark and an axis. Unpinned keys share the left axis
+// unless their values are an order of magnitude smaller than the largest
+// left-axis series; by default left-axis series are bars and right-axis
+// series lines.
+export const planComboSeries = (
+  rows: ChartDataPoint[],
+  keys: string[],
+  request: ComboRequest = { types: {}, axes: {} }
+): ComboSeries[] => {
+  const magnitudes = Object.fromEntries(
+    keys.map((key) => [key, magnitude(rows, key)])
+  );
+  const leftKeys = keys.filter((key) => request.axes[key] !== "right");
+  const largest = Math.max(
+    0,
+    ...(leftKeys.some((key) => request.axes[key] === "left")
+      ? leftKeys.filter((key) => request.axes[key] === "left")
+      : leftKeys
+    ).map((key) => magnitudes[key])
+  );
+  const series = keys.map((key): Omit<ComboSeries, "type"> => ({
+    key,
+    axis:
+      request.axes[key] ??
+      (largest > 0 && magnitudes[key] * SCALE_RATIO < largest
+        ? "right"
+        : "left"),
+  }));
+  const hasRight = series.some((item) => item.axis === "right");
+  return series.map((item, idx) => ({
+    ...item,
+    type:
+      request.types[item.key] ??
+      request.defaultType ??
+      (hasRight
+        ? item.axis === "left"
+          ? "bar"
+          : "line"
+        : idx === 0
+        ? "bar"
+        : "line"),
+  }));
+};
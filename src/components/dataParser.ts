@@ -0,0 +1,246 @@
+// Parse the data editor's text - JSON, CSV, TSV or a spreadsheet paste -
+// into chart rows
+import type { ChartDataPoint, ChartValue } from "../types";
+import { normalizeData, type DataShape } from "./dataShapes";
+
+export type DataFormat = "json" | "csv" | "tsv";
+
+// "auto" sniffs one of DELIMITERS from the first lines; any other value is
+// used as the delimiter itself
+export type DelimiterOption = "auto" | string;
+
+export interface ParseOptions {
+  delimiter: DelimiterOption;
+  format?: DataFormat; // Known from a file extension; otherwise detected
+  path?: string; // JSONPath-style selector for the rows inside a JSON payload
+}
+
+export const DEFAULT_PARSE_OPTIONS: ParseOptions = {
+  delimiter: "auto",
+};
+
+export interface ParsedData {
+  data: ChartDataPoint[];
+  format: DataFormat;
+  delimiter?: string;
+  hasHeader?: boolean;
+  shape?: DataShape; // How JSON rows were found
+  path?: string;
+}
+
+const DELIMITERS = [",", "\t", ";", "|"];
+const SNIFF_LINES = 10;
+// Missing-value markers; only numeric and boolean columns read them as null,
+// so "NA" or "None" stay categories in text columns
+const NULL_TOKENS = /^(?:null|n\/a|na|nan|none|-|—)$/i;
+const NUMBER =
+  /^[-+]?(?:\d+|\d{1,3}(?:,\d{3})+)(?:\.\d+)?(?:e[-+]?\d+)?$|^[-+]?\.\d+$/i;
+
+// Split delimited text into rows of fields (RFC 4180: quoted fields may hold
+// delimiters, newlines and "" escaped quotes)
+export const parseDelimitedRows = (
+  text: string,
+  delimiter: string
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines (and the trailing newline of spreadsheet pastes) carry no data
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+// Pick the delimiter that splits the first lines into the most consistent,
+// non-trivial number of fields
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, SNIFF_LINES).join("\n");
+  let best = ",";
+  let bestScore = 0;
+  DELIMITERS.forEach((delimiter) => {
+    const counts = parseDelimitedRows(sample, delimiter).map(
+      (cells) => cells.length
+    );
+    if (counts.length === 0 || counts[0] < 2) return;
+    const consistent = counts.filter((count) => count === counts[0]).length;
+    // Tabs rarely appear in values, so they win ties (spreadsheet pastes)
+    const score =
+      (consistent / counts.length) * counts[0] + (delimiter === "\t" ? 0.5 : 0);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const isBlank = (cell: string) => {
+  const trimmed = cell.trim();
+  return trimmed === "" || NULL_TOKENS.test(trimmed);
+};
+
+const isEmpty = (cell: string) => cell.trim() === "";
+
+const isNumeric = (cell: string) => NUMBER.test(cell.trim());
+
+const isBoolean = (cell: string) => /^(?:true|false)$/i.test(cell.trim());
+
+// Codes such as zip codes or ids keep their leading zeros
+const hasLeadingZero = (cell: string) => /^[-+]?0\d/.test(cell.trim());
+
+// The first row is a header when its cells are distinct labels rather than
+// values
+const detectHeader = (rows: string[][]): boolean => {
+  if (rows.length < 2) return rows.length === 1;
+  const [first, ...body] = rows;
+  const labels = first.map((cell) => cell.trim());
+  if (labels.some((label) => label === "" || isNumeric(label))) return false;
+  if (new Set(labels).size !== labels.length) return false;
+  // A text first row over a numeric column is a strong signal; all-text
+  // tables are assumed to have headers too
+  return (
+    labels.some((_, col) =>
+      body.every((row) => isBlank(row[col] ?? "") || isNumeric(row[col]))
+    ) ||
+    body.every((row) => row.every((cell) => isBlank(cell) || !isNumeric(cell)))
+  );
+};
+
+type ColumnType = "number" | "boolean" | "string";
+
+// A column is numeric/boolean only when every non-blank cell agrees, so
+// stray text keeps the whole column as strings
+const inferColumnType = (cells: string[]): ColumnType => {
+  const values = cells.filter((cell) => !isBlank(cell));
+  if (values.length === 0) return "string";
+  if (values.every((cell) => isNumeric(cell) && !hasLeadingZero(cell))) {
+    return "number";
+  }
+  if (values.every(isBoolean)) return "boolean";
+  return "string";
+};
+
+const convertCell = (cell: string, type: ColumnType): ChartValue => {
+  if (type === "string" ? isEmpty(cell) : isBlank(cell)) return null;
+  const trimmed = cell.trim();
+  if (type === "number") return Number(trimmed.replace(/,/g, ""));
+  if (type === "boolean") return trimmed.toLowerCase() === "true";
+  return trimmed;
+};
+
+// Parse delimited text into typed rows
+export const parseDelimited = (
+  text: string,
+  delimiterOption: DelimiterOption = "auto"
+): ParsedData => {
+  const delimiter =
+    delimiterOption === "auto" ? detectDelimiter(text) : delimiterOption;
+  const rows = parseDelimitedRows(text, delimiter);
+  if (rows.length === 0) {
+    return { data: [], format: delimiter === "\t" ? "tsv" : "csv", delimiter };
+  }
+
+  const hasHeader = detectHeader(rows);
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = hasHeader
+    ? rows[0].map((cell) => cell.trim())
+    : Array.from({ length: width }, (_, idx) => `column${idx + 1}`);
+  // Extra unnamed cells get positional names
+  while (header.length < width) header.push(`column${header.length + 1}`);
+  const body = hasHeader ? rows.slice(1) : rows;
+
+  const types = header.map((_, col) =>
+    inferColumnType(body.map((row) => row[col] ?? ""))
+  );
+  const data = body.map((row) => {
+    const point: ChartDataPoint = {};
+    header.forEach((key, col) => {
+      point[key] = convertCell(row[col] ?? "", types[col]);
+    });
+    return point;
+  });
+
+  return {
+    data,
+    format: delimiter === "\t" ? "tsv" : "csv",
+    delimiter,
+    hasHeader,
+  };
+};
+
+// Parse editor or file text; throws with a user-facing message
+export const parseDataText = (
+  text: string,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS
+): ParsedData => {
+  const trimmed = text.trim();
+  const looksLikeJson = /^[[{]/.test(trimmed);
+  const format = options.format ?? (looksLikeJson ? "json" : undefined);
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? `Invalid JSON: ${error.message}`
+          : "Invalid JSON"
+      );
+    }
+    return { ...normalizeData(parsed, options.path), format: "json" };
+  }
+
+  if (trimmed === "") return { data: [], format: "json" };
+
+  return parseDelimited(
+    text,
+    options.delimiter === "auto" && format === "tsv" ? "\t" : options.delimiter
+  );
+};
+
+// Format implied by a dropped or opened file's name
+export const formatFromFileName = (name: string): DataFormat | undefined => {
+  const extension = name.toLowerCase().split(".").pop();
+  if (extension === "json") return "json";
+  if (extension === "tsv" || extension === "tab") return "tsv";
+  if (extension === "csv") return "csv";
+  return undefined;
+};
+
+// Plain .txt files may hold JSON or any delimited text, so their content
+// decides the format
+export const isDataFileName = (name: string): boolean =>
+  formatFromFileName(name) !== undefined || /\.txt$/i.test(name);
@@ -0,0 +1,228 @@
+// Field profiling across every row: type votes, null ratio, cardinality,
+// numeric range and numeric-string coercion. Shared with server.ts, so keep
+// it free of DOM and React dependencies.
+import {
+  detectTemporalFormat,
+  parseDateValue,
+  type TemporalFormat,
+} from "./dates";
+import { maxValue, minValue } from "./statistics";
+
+export type FieldType =
+  | "number"
+  | "string"
+  | "date"
+  | "boolean"
+  | "array"
+  | "object";
+
+export type NumericUnit = "percent" | "currency";
+
+export interface FieldProfile {
+  key: string;
+  type: FieldType; // Majority vote over non-null values
+  votes: Partial<Record<FieldType, number>>;
+  present: number; // Rows with a non-null value
+  nullRatio: number; // Missing or null values over all rows
+  cardinality: number; // Distinct non-null values
+  min?: number; // Numeric range, after coercion
+  max?: number;
+  coerce: boolean; // Numeric strings ("12.5", "45%", "$1,200") become numbers
+  unit?: NumericUnit;
+  temporal?: TemporalFormat; // How to read the values as dates
+}
+
+export interface DataProfile {
+  rowCount: number;
+  keys: string[]; // In first-seen order
+  fields: Record<string, FieldProfile>;
+  numericKeys: string[];
+  stringKeys: string[]; // Includes date keys
+  dateKeys: string[];
+}
+
+type ProfileRow = Record<string, unknown>;
+
+// Share of a string column's values that must parse as numbers to coerce it
+const COERCE_THRESHOLD = 0.9;
+
+const NUMERIC_STRING =
+  /^([-+]?)\s*([$€£¥])?\s*((?:\d+|\d{1,3}(?:,\d{3})+)(?:\.\d+)?|\.\d+)\s*(%)?$/;
+
+// Years ("2024") and zero-padded codes ("02134") read better as labels
+const CODE_LIKE = /^(?:0\d+|(?:19|20)\d{2})$/;
+
+// Parse "12.5", "1,234", "45%" or "$1,200" into a number and its unit
+export const parseNumericString = (
+  value: string
+): { value: number; unit?: NumericUnit } | null => {
+  const match = value.trim().match(NUMERIC_STRING);
+  if (!match) return null;
+  const [, sign, currency, digits, percent] = match;
+  const parsed = parseFloat(`${sign}${digits.replace(/,/g, "")}`);
+  if (!Number.isFinite(parsed)) return null;
+  return {
+    value: parsed,
+    ...(percent ? { unit: "percent" } : currency ? { unit: "currency" } : {}),
+  };
+};
+
+const voteFor = (
+  value: unknown,
+  temporal: TemporalFormat | null
+): FieldType => {
+  if (temporal && parseDateValue(value, temporal) !== null) return "date";
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "object") return "object";
+  return "string";
+};
+
+// Ties prefer the more specific type
+const TYPE_PRIORITY: FieldType[] = [
+  "number",
+  "date",
+  "boolean",
+  "string",
+  "array",
+  "object",
+];
+
+const profileField = (rows: ProfileRow[], key: string): FieldProfile => {
+  const votes: Partial<Record<FieldType, number>> = {};
+  const distinct = new Set<string>();
+  const numbers: number[] = [];
+  const units = new Set<NumericUnit>();
+  let present = 0;
+  let numericStrings = 0;
+  let codeStrings = 0;
+  const temporal = detectTemporalFormat(
+    key,
+    rows.map((row) => row[key])
+  );
+
+  rows.forEach((row) => {
+    const value = row[key];
+    if (value === null || value === undefined || value === "") return;
+    present += 1;
+    const vote = voteFor(value, temporal);
+    votes[vote] = (votes[vote] || 0) + 1;
+    distinct.add(
+      typeof value === "object" ? JSON.stringify(value) : String(value)
+    );
+
+    if (typeof value === "number" && Number.isFinite(value)) {
+      numbers.push(value);
+    } else if (typeof value === "string") {
+      const parsed = parseNumericString(value);
+      if (parsed) {
+        numericStrings += 1;
+        if (CODE_LIKE.test(value.trim())) codeStrings += 1;
+        numbers.push(parsed.value);
+        if (parsed.unit) units.add(parsed.unit);
+      }
+    }
+  });
+
+  const stringVotes = (votes.string || 0) + (votes.date || 0);
+  // Dates stay dates even when written as digits (epoch strings)
+  const coerce =
+    !temporal &&
+    stringVotes > 0 &&
+    numericStrings >= stringVotes * COERCE_THRESHOLD &&
+    codeStrings < numericStrings;
+
+  const tally = { ...votes };
+  if (coerce) {
+    tally.number = (tally.number || 0) + numericStrings;
+    tally.string = Math.max(0, (tally.string || 0) - numericStrings);
+  }
+  const type =
+    TYPE_PRIORITY.reduce<FieldType | undefined>(
+      (best, candidate) =>
+        (tally[candidate] || 0) > (best ? tally[best] || 0 : 0)
+          ? candidate
+          : best,
+      undefined
+    ) || "string";
+
+  return {
+    key,
+    type,
+    votes,
+    present,
+    nullRatio: rows.length > 0 ? 1 - present / rows.length : 1,
+    cardinality: distinct.size,
+    ...(numbers.length > 0 && {
+      min: minValue(numbers),
+      max: maxValue(numbers),
+    }),
+    coerce: coerce && type === "number",
+    ...(temporal && type === "date" && { temporal }),
+    ...(units.size === 1 && { unit: Array.from(units)[0] }),
+  };
+};
+
+// Profile every field that appears in any row
+export const profileData = (rows: ProfileRow[]): DataProfile => {
+  const keys: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach((row) => {
+    Object.keys(row).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        keys.push(key);
+      }
+    });
+  });
+
+  const fields: Record<string, FieldProfile> = {};
+  keys.forEach((key) => {
+    fields[key] = profileField(rows, key);
+  });
+
+  const typed = (types: FieldType[]) =>
+    keys.filter((key) => types.includes(fields[key].type));
+  return {
+    rowCount: rows.length,
+    keys,
+    fields,
+    numericKeys: typed(["number"]),
+    stringKeys: typed(["string", "date"]),
+    dateKeys: typed(["date"]),
+  };
+};
+
+// Convert numeric strings in coercible fields to numbers
+export const applyCoercions = <T extends ProfileRow>(
+  rows: T[],
+  profile: DataProfile
+): T[] => {
+  const coercedKeys = profile.keys.filter((key) => profile.fields[key].coerce);
+  if (coercedKeys.length === 0) return rows;
+  return rows.map((row) => {
+    const next: ProfileRow = { ...row };
+    coercedKeys.forEach((key) => {
+      const value = row[key];
+      if (typeof value === "string") {
+        next[key] = parseNumericString(value)?.value ?? null;
+      }
+    });
+    return next as T;
+  });
+};
+
+// Order candidate keys so fully populated, informative fields come first
+export const rankByCompleteness = (
+  keys: string[],
+  profile: DataProfile
+): string[] =>
+  [...keys].sort((a, b) => {
+    const fieldA = profile.fields[a];
+    const fieldB = profile.fields[b];
+    if (!fieldA || !fieldB) return 0;
+    const constantA = fieldA.cardinality <= 1 ? 1 : 0;
+    const constantB = fieldB.cardinality <= 1 ? 1 : 0;
+    return fieldA.nullRatio - fieldB.nullRatio || constantA - constantB;
+  });
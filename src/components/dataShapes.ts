@@ -0,0 +1,171 @@
+// Normalize the JSON shapes APIs return - row arrays, columnar objects,
+// keyed maps and envelopes - into the row arrays the charts consume
+import type { ChartDataPoint, ChartValue } from "../types";
+
+export type DataShape =
+  | "rows" // [{...}, {...}]
+  | "columnar" // { months: [...], csat: [...] }
+  | "keyed" // { Jan: 10, Feb: 20 } or { Jan: {...}, Feb: {...} }
+  | "envelope" // { data: [...], meta: {...} }
+  | "single"; // One object the charts read as a whole (tree root, network)
+
+export interface NormalizedData {
+  data: ChartDataPoint[];
+  shape: DataShape;
+  path?: string; // Where the rows were found inside the payload
+}
+
+// Preferred envelope keys, in order
+const ENVELOPE_KEYS = ["data", "items", "results", "rows", "records", "values"];
+
+type Json = unknown;
+
+const isRecord = (value: Json): value is Record<string, Json> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPrimitive = (value: Json): value is ChartValue =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+const isRowArray = (value: Json): value is Record<string, Json>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+// Parse "$.data.items[0]['key']" into property/index segments
+const parsePath = (path: string): Array<string | number> => {
+  const segments: Array<string | number> = [];
+  const pattern = /\.?([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/g;
+  const body = path.trim().replace(/^\$/, "");
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+  while ((match = pattern.exec(body)) !== null) {
+    if (match.index !== consumed) break;
+    consumed = pattern.lastIndex;
+    if (match[2] !== undefined) segments.push(parseInt(match[2], 10));
+    else segments.push(match[3] ?? match[1]);
+  }
+  if (consumed !== body.length) {
+    throw new Error(`Invalid data path: ${path}`);
+  }
+  return segments;
+};
+
+// Resolve a JSONPath-style selector such as "$.data.items" or "results[0].rows"
+export const selectPath = (value: Json, path: string): Json =>
+  parsePath(path).reduce<Json>((current, segment) => {
+    if (typeof segment === "number") {
+      return Array.isArray(current) ? current[segment] : undefined;
+    }
+    return isRecord(current) ? current[segment] : undefined;
+  }, value);
+
+// Hierarchy roots and network payloads are read as a whole
+const isStructuredObject = (value: Record<string, Json>) =>
+  (Array.isArray(value.nodes) &&
+    (Array.isArray(value.links) || Array.isArray(value.edges))) ||
+  ["children", "items", "subcategories"].some(
+    (key) => isRowArray(value[key]) && "name" in value
+  );
+
+// Parallel primitive arrays of equal length, zipped into rows
+const fromColumns = (value: Record<string, Json>): ChartDataPoint[] | null => {
+  const columns = Object.entries(value).filter(
+    (entry): entry is [string, ChartValue[]] =>
+      Array.isArray(entry[1]) &&
+      entry[1].length > 0 &&
+      entry[1].every(isPrimitive)
+  );
+  if (columns.length < 2) return null;
+  const length = columns[0][1].length;
+  if (columns.some(([, values]) => values.length !== length)) return null;
+  return Array.from({ length }, (_, idx) =>
+    Object.fromEntries(columns.map(([key, values]) => [key, values[idx]]))
+  );
+};
+
+const findEnvelopeKey = (value: Record<string, Json>): string | undefined => {
+  const arrayKeys = Object.keys(value).filter((key) => isRowArray(value[key]));
+  return (
+    ENVELOPE_KEYS.find((key) => arrayKeys.includes(key)) ||
+    (arrayKeys.length === 1 ? arrayKeys[0] : undefined)
+  );
+};
+
+// { Jan: 10 } becomes { name: "Jan", value: 10 }; { Jan: {...} } keeps the
+// inner fields next to the name
+const fromKeyedMap = (value: Record<string, Json>): ChartDataPoint[] | null => {
+  const entries = Object.entries(value);
+  if (entries.length < 2) return null;
+  if (entries.every(([, entry]) => isPrimitive(entry))) {
+    return entries.map(([name, entry]) => ({
+      name,
+      value: entry as ChartValue,
+    }));
+  }
+  if (entries.every(([, entry]) => isRecord(entry))) {
+    return entries.map(([name, entry]) => ({
+      name,
+      ...(entry as ChartDataPoint),
+    }));
+  }
+  return null;
+};
+
+// Arrays of primitives or of [header, ...rows] tuples become objects too
+const fromArray = (value: Json[]): ChartDataPoint[] => {
+  if (value.every(isRecord)) return value as ChartDataPoint[];
+  if (value.every(isPrimitive)) {
+    return value.map((entry, index) => ({ index, value: entry }));
+  }
+  if (value.every(Array.isArray)) {
+    const [first, ...rest] = value as Json[][];
+    const hasHeader = first.every((cell) => typeof cell === "string");
+    const header = hasHeader
+      ? (first as string[])
+      : first.map((_, idx) => `column${idx + 1}`);
+    return (hasHeader ? rest : (value as Json[][])).map((row) =>
+      Object.fromEntries(
+        header.map((key, idx) => [key, row[idx] as ChartValue])
+      )
+    );
+  }
+  throw new Error("Data array mixes objects and plain values");
+};
+
+// Turn any supported payload into chart rows; throws with a user-facing
+// message when nothing usable is found
+export const normalizeData = (value: Json, path?: string): NormalizedData => {
+  if (path && path.trim() !== "" && path.trim() !== "$") {
+    const selected = selectPath(value, path);
+    if (selected === undefined) {
+      throw new Error(`Data path ${path} matched nothing`);
+    }
+    const normalized = normalizeData(selected);
+    return { ...normalized, path: path.trim() };
+  }
+
+  if (Array.isArray(value)) {
+    return { data: fromArray(value), shape: "rows" };
+  }
+  if (!isRecord(value)) {
+    throw new Error("Data must be an array or an object");
+  }
+  if (isStructuredObject(value)) {
+    return { data: [value as ChartDataPoint], shape: "single" };
+  }
+
+  const columnar = fromColumns(value);
+  if (columnar) return { data: columnar, shape: "columnar" };
+
+  const envelopeKey = findEnvelopeKey(value);
+  if (envelopeKey) {
+    return {
+      data: value[envelopeKey] as ChartDataPoint[],
+      shape: "envelope",
+      path: `$.${envelopeKey}`,
+    };
+  }
+
+  const keyed = fromKeyedMap(value);
+  if (keyed) return { data: keyed, shape: "keyed" };
+
+  return { data: [value as ChartDataPoint], shape: "single" };
+};
@@ -0,0 +1,281 @@
+// Date and time parsing for temporal fields: ISO, month, week and quarter
+// labels, epoch timestamps and locale day/month orders
+
+export type DateOrder = "mdy" | "dmy";
+export type EpochUnit = "s" | "ms";
+
+// How a field's values are read as timestamps
+export interface TemporalFormat {
+  order: DateOrder; // Only matters for numeric d/m/y dates
+  ambiguous?: boolean; // Every d/m/y value fits both orders
+  epoch?: EpochUnit; // Set for numeric timestamps
+}
+
+export const DEFAULT_TEMPORAL_FORMAT: TemporalFormat = { order: "mdy" };
+
+// Share of non-null values that must parse for a field to count as temporal
+const TEMPORAL_THRESHOLD = 0.9;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+// Abbreviations and full names only, so "Marketing 24" or "Junior 10"
+// aren't dates
+const MONTH_NAME =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|" +
+  "aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|" +
+  "dec(?:ember)?)\\.?";
+
+const ISO_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const YEAR_MONTH_DAY = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+const YEAR_MONTH = /^(\d{4})[-/](\d{1,2})$/;
+const MONTH_YEAR = /^(\d{1,2})[-/.](\d{4})$/;
+const ISO_WEEK = /^(\d{4})-?W(\d{1,2})(?:-?([1-7]))?$/i;
+const QUARTER_FIRST = /^Q([1-4])[\s'-]*(\d{4}|\d{2})$/i;
+const YEAR_QUARTER = /^(\d{4})[\s-]*Q([1-4])$/i;
+const LOCALE_DATE =
+  /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const NAME_DAY_YEAR = new RegExp(
+  `^${MONTH_NAME}\\s+(\\d{1,2}),?\\s+(\\d{4})$`,
+  "i"
+);
+const DAY_NAME_YEAR = new RegExp(
+  `^(\\d{1,2})\\s+${MONTH_NAME}\\s+(\\d{4})$`,
+  "i"
+);
+const NAME_YEAR = new RegExp(`^${MONTH_NAME}[\\s'-]*(\\d{4}|\\d{2})$`, "i");
+const EPOCH_DIGITS = /^\d{10}(?:\d{3})?$/;
+
+// Plausible epoch ranges: 2001-09 .. 2286 in seconds, same span in millis
+const EPOCH_SECONDS = [1e9, 1e10];
+const EPOCH_MILLIS = [1e12, 1e13];
+
+const expandYear = (year: string) => {
+  const value = parseInt(year, 10);
+  if (year.length > 2) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+};
+
+const monthIndex = (name: string) =>
+  MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+// Month index (0-11) of a bare month name such as "March" or "sep.";
+// undefined for anything else
+export const monthOfName = (text: string): number | undefined => {
+  const match = text.trim().match(new RegExp(`^${MONTH_NAME}$`, "i"));
+  return match ? monthIndex(match[1]) : undefined;
+};
+
+// Local time, matching how ECharts labels time axes
+const localTime = (
+  year: number,
+  month: number,
+  day = 1,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): number | null => {
+  const date = new Date(year, month, day, hours, minutes, seconds);
+  // Reject rollovers such as 31/02
+  return date.getMonth() === month && date.getDate() === day
+    ? date.getTime()
+    : null;
+};
+
+// Monday of ISO week `week` in `year`
+export const isoWeekStart = (year: number, week: number, weekday = 1) => {
+  if (week < 1 || week > 53) return null;
+  const jan4 = new Date(year, 0, 4);
+  const jan4Weekday = (jan4.getDay() + 6) % 7; // Monday = 0
+  return new Date(
+    year,
+    0,
+    4 - jan4Weekday + (week - 1) * 7 + weekday - 1
+  ).getTime();
+};
+
+const epochToTime = (value: number, unit?: EpochUnit): number | null => {
+  if (unit === "s") return value * 1000;
+  if (unit === "ms") return value;
+  return null;
+};
+
+export const detectEpochUnit = (value: number): EpochUnit | undefined => {
+  if (value >= EPOCH_SECONDS[0] && value < EPOCH_SECONDS[1]) return "s";
+  if (value >= EPOCH_MILLIS[0] && value < EPOCH_MILLIS[1]) return "ms";
+  return undefined;
+};
+
+// Parse one value to a timestamp in milliseconds, or null when it isn't a
+// recognised date
+export const parseDateValue = (
+  value: unknown,
+  format: TemporalFormat = DEFAULT_TEMPORAL_FORMAT
+): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? epochToTime(value, format.epoch) : null;
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.getTime();
+  }
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (text === "") return null;
+  let match: RegExpMatchArray | null;
+
+  if (format.epoch && EPOCH_DIGITS.test(text)) {
+    return epochToTime(parseInt(text, 10), format.epoch);
+  }
+  if ((match = text.match(ISO_DATE_TIME))) {
+    // Offsets and "Z" are absolute; bare date-times are local
+    if (match[7]) {
+      const parsed = Date.parse(text.replace(" ", "T"));
+      return isNaN(parsed) ? null : parsed;
+    }
+    const [, year, month, day, hours, minutes, seconds] = match;
+    return localTime(
+      +year,
+      +month - 1,
+      +day,
+      +hours,
+      +minutes,
+      seconds ? +seconds : 0
+    );
+  }
+  if ((match = text.match(YEAR_MONTH_DAY))) {
+    return localTime(+match[1], +match[2] - 1, +match[3]);
+  }
+  if ((match = text.match(ISO_WEEK))) {
+    return isoWeekStart(+match[1], +match[2], match[3] ? +match[3] : 1);
+  }
+  if ((match = text.match(YEAR_QUARTER))) {
+    return localTime(+match[1], (+match[2] - 1) * 3);
+  }
+  if ((match = text.match(QUARTER_FIRST))) {
+    return localTime(expandYear(match[2]), (+match[1] - 1) * 3);
+  }
+  if ((match = text.match(YEAR_MONTH))) {
+    return +match[2] >= 1 && +match[2] <= 12
+      ? localTime(+match[1], +match[2] - 1)
+      : null;
+  }
+  if ((match = text.match(MONTH_YEAR))) {
+    return +match[1] >= 1 && +match[1] <= 12
+      ? localTime(+match[2], +match[1] - 1)
+      : null;
+  }
+  if ((match = text.match(LOCALE_DATE))) {
+    const [, first, second, year, hours, minutes, seconds] = match;
+    const [month, day] =
+      format.order === "dmy" ? [+second, +first] : [+first, +second];
+    if (month < 1 || month > 12) return null;
+    return localTime(
+      expandYear(year),
+      month - 1,
+      day,
+      hours ? +hours : 0,
+      minutes ? +minutes : 0,
+      seconds ? +seconds : 0
+    );
+  }
+  if ((match = text.match(NAME_DAY_YEAR))) {
+    return localTime(+match[3], monthIndex(match[1]), +match[2]);
+  }
+  if ((match = text.match(DAY_NAME_YEAR))) {
+    return localTime(+match[3], monthIndex(match[2]), +match[1]);
+  }
+  if ((match = text.match(NAME_YEAR))) {
+    return localTime(expandYear(match[2]), monthIndex(match[1]));
+  }
+  return null;
+};
+
+// Decide between DD/MM and MM/DD from values where one part exceeds 12
+export const detectDateOrder = (
+  values: string[]
+): { order: DateOrder; ambiguous: boolean } => {
+  let monthFirst = false;
+  let dayFirst = false;
+  let localeCount = 0;
+  values.forEach((value) => {
+    const match = value.trim().match(LOCALE_DATE);
+    if (!match) return;
+    localeCount += 1;
+    if (+match[1] > 12) dayFirst = true;
+    if (+match[2] > 12) monthFirst = true;
+  });
+  if (dayFirst && !monthFirst) return { order: "dmy", ambiguous: false };
+  return { order: "mdy", ambiguous: localeCount > 0 && !monthFirst };
+};
+
+// Key names that make large integers plausible timestamps
+const EPOCH_KEY =
+  /[Tt]ime|[Dd]ate|[Ss]tamp|[Ee]poch|(^|[_.-])(ts|at)$|[a-z]At$/;
+
+// Work out whether a field holds dates and how to read them; null when it
+// doesn't
+export const detectTemporalFormat = (
+  key: string,
+  values: unknown[]
+): TemporalFormat | null => {
+  const present = values.filter(
+    (value) => value !== null && value !== undefined && value !== ""
+  );
+  if (present.length === 0) return null;
+
+  // Numeric timestamps only when the key says so; otherwise any large
+  // measure would turn into dates
+  if (present.every((value) => typeof value === "number")) {
+    if (!EPOCH_KEY.test(key)) return null;
+    const units = new Set(
+      present.map((value) => detectEpochUnit(value as number))
+    );
+    const [unit] = Array.from(units);
+    return units.size === 1 && unit ? { order: "mdy", epoch: unit } : null;
+  }
+
+  const strings = present.filter(
+    (value): value is string => typeof value === "string"
+  );
+  if (strings.length < present.length * TEMPORAL_THRESHOLD) return null;
+
+  const { order, ambiguous } = detectDateOrder(strings);
+  const epochDigits = strings.every((value) => EPOCH_DIGITS.test(value.trim()));
+  const epoch =
+    epochDigits && EPOCH_KEY.test(key)
+      ? detectEpochUnit(parseInt(strings[0], 10))
+      : undefined;
+  const format: TemporalFormat = {
+    order,
+    ...(ambiguous && { ambiguous }),
+    ...(epoch && { epoch }),
+  };
+  const parsed = strings.filter(
+    (value) => parseDateValue(value, format) !== null
+  ).length;
+  return parsed >= present.length * TEMPORAL_THRESHOLD ? format : null;
+};
+
+// "day first", "dd/mm" or "european dates" in a prompt flips the order
+export const parseDateOrder = (prompt: string): DateOrder | undefined => {
+  const promptLower = prompt.toLowerCase();
+  if (/day[\s-]first|dd\/mm|european dates|uk dates/.test(promptLower)) {
+    return "dmy";
+  }
+  if (/month[\s-]first|mm\/dd|us dates|american dates/.test(promptLower)) {
+    return "mdy";
+  }
+  return undefined;
+};
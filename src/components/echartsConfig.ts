@@ -1,12 +1,73 @@
 // ECharts configuration for all supported chart types
 import * as echarts from "echarts";
-import type { ChartDataPoint, GraphNodeData } from "../types";
+import type { ChartDataPoint } from "../types";
+import {
+  buildHierarchy,
+  toSingleRoot,
+  type HierarchyNode,
+} from "./hierarchy";
+import { detectOhlcKeys, movingAverage } from "./financial";
+import { parseDateValue, type TemporalFormat } from "./dates";
+import type { ResampleOptions } from "./resample";
+import { OTHER_LABEL, rankItems, type RankOptions } from "./ranking";
+import { planComboSeries, type ComboSeries } from "./combo";
+import {
+  describeFit,
+  fitTrendline,
+  DEFAULT_TRENDLINE_OPTIONS,
+  type TrendlineOptions,
+} from "./regression";
+import {
+  describeTransform,
+  isPercentTransform,
+  rawValueKey,
+  type WindowTransform,
+} from "./windowTransforms";
+import { getScaleColors, type ColorPalette } from "./palettes";
+import {
+  buildNetwork,
+  DEFAULT_NETWORK_OPTIONS,
+  type NetworkEdge,
+  type NetworkOptions,
+} from "./network";
+import {
+  formatMissingValue,
+  resolveSeriesValues,
+  type MissingValuePolicy,
+} from "./missingValues";
+import { parseNumericString } from "./dataProfile";
+import {
+  aggregateValues,
+  buildEvaluationGrid,
+  computeBoxplotStats,
+  computeHistogramBins,
+  DEFAULT_DENSITY_OPTIONS,
+  DEFAULT_HISTOGRAM_OPTIONS,
+  extractNumericValues,
+  formatBinEdge,
+  kernelDensityEstimate,
+  kernelReach,
+  maxValue,
+  minValue,
+  silvermanBandwidth,
+  toFiniteNumber,
+  type AggregationType,
+  type DensityOptions,
+  type HistogramOptions,
+} from "./statistics";
+
+// Shared with the Recharts configuration; defined with the palettes
+export { generateRandomColors, getRandomColorPalette } from "./palettes";
 
 export interface EChartsConfig {
   chartType: string;
   echartsType: string; // ECharts chart type name
   keywords: string[];
+  // Keywords that pick this type only when no other chart type is named
+  fallbackKeywords?: string[];
   requiresSpecialConfig?: boolean;
+  // Returns a user-facing message when the data can't produce this chart
+  validate?: (config: EChartsElementConfig) => string | null;
   generateOption: (config: EChartsElementConfig) => echarts.EChartsOption;
 }
 
@@ -19,29 +80,479 @@ export interface EChartsElementConfig {
   isGrouped?: boolean;
   hasTrendline?: boolean;
   multipleTrendlines?: boolean;
+  trendline?: TrendlineOptions; // Fit model, equation and band
+  histogram?: HistogramOptions;
+  density?: DensityOptions;
+  groupKey?: string; // Category column for grouped distributions
+  showMean?: boolean;
+  missingValues?: MissingValuePolicy;
+  heatmap?: HeatmapOptions;
+  levelKeys?: string[]; // Category columns used as hierarchy levels
+  network?: NetworkOptions;
+  movingAverages?: number[]; // Windows for candlestick MA overlays
+  palette?: ColorPalette; // Named palette the colors were drawn from
+  timeAxis?: TemporalFormat; // Set when nameKey holds dates
+  resample?: ResampleOptions; // Time bucketing already applied to `data`
+  aggregation?: AggregationType; // How rows sharing a name were combined
+  seriesKey?: string; // Long-format column pivoted into the dataKeys series
+  rank?: RankOptions; // Sorting and top-N; treemaps rank their branches
+  transform?: WindowTransform; // Window transform already applied to `data`
+  comboSeries?: ComboSeries[]; // Mark and value axis of each combo series
+  // Stable color for a series/category name; falls back to `colors` by index
+  colorFor?: (name: string, idx: number) => string;
   data: ChartDataPoint[];
 }
 
-// Generate random vibrant colors
-export const generateRandomColor = (): string => {
-  const hue = Math.floor(Math.random() * 360);
-  const saturation = 60 + Math.floor(Math.random() * 40);
-  const lightness = 40 + Math.floor(Math.random() * 30);
-  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+export interface HeatmapOptions {
+  yKey?: string; // Category column for rows; omit to pivot numeric columns
+  aggregation: AggregationType; // How duplicate (x, y) cells are combined
+  diverging: boolean;
+}
+
+export const DEFAULT_HEATMAP_OPTIONS: HeatmapOptions = {
+  aggregation: "sum",
+  diverging: false,
+};
+
+// Row indices in time order on a time axis, where the rows are re-sorted by
+// date; undefined when rows are plotted as given
+const timeOrder = (config: EChartsElementConfig): number[] | undefined => {
+  if (!config.timeAxis) return undefined;
+  const times = config.data.map((item) =>
+    parseDateValue(item[config.nameKey], config.timeAxis)
+  );
+  return times
+    .map((time, idx) => ({ time, idx }))
+    .filter((entry): entry is { time: number; idx: number } =>
+      entry.time !== null
+    )
+    .sort((a, b) => a.time - b.time)
+    .map((entry) => entry.idx);
+};
+
+// A column's values aligned with config.data, interpolated in plotted order
+const seriesValues = (
+  config: EChartsElementConfig,
+  key: string
+): Array<number | null> =>
+  resolveSeriesValues(
+    config.data,
+    key,
+    config.missingValues,
+    timeOrder(config)
+  );
+
+// Numbers and numeric text such as "1,234" or "45%"; parseFloat would read
+// "2024-03-01" as 2024
+const toStrictNumber = (value: unknown): number | null =>
+  typeof value === "number"
+    ? Number.isFinite(value)
+      ? value
+      : null
+    : typeof value === "string"
+    ? parseNumericString(value)?.value ?? null
+    : null;
+
+// Build [x, y] pairs for scatter-style series. Date labels become
+// timestamps on a time axis and other non-numeric x labels fall back to the
+// row index; points with a missing coordinate are dropped unless the
+// missing-value policy fills them.
+const resolveScatterPoints = (
+  config: EChartsElementConfig,
+  key: string
+): Array<[number, number]> => {
+  const yValues = seriesValues(config, key);
+  const isBlankX = (rawX: unknown) =>
+    rawX === null || rawX === undefined || rawX === "";
+  // "2024-03-01" or "01/2025" aren't numbers; without a time axis a column
+  // holding any such label is plotted by row position instead
+  const numericX = config.data.every(
+    (item) =>
+      isBlankX(item[config.nameKey]) ||
+      toStrictNumber(item[config.nameKey]) !== null
+  );
+  const points: Array<[number, number]> = [];
+  config.data.forEach((item, idx) => {
+    const rawX = item[config.nameKey];
+    const x = isBlankX(rawX)
+      ? config.missingValues === "zero"
+        ? 0
+        : null
+      : config.timeAxis
+      ? parseDateValue(rawX, config.timeAxis)
+      : numericX
+      ? toStrictNumber(rawX)
+      : idx;
+    const y = yValues[idx];
+    if (x !== null && y !== null) {
+      points.push([x, y]);
+    }
+  });
+  return points;
+};
+
+// Color for a named series or category
+const seriesColor = (
+  config: EChartsElementConfig,
+  name: string,
+  idx: number
+): string =>
+  config.colorFor?.(name, idx) ?? config.colors[idx % config.colors.length];
+
+// Put the x axis on continuous time: labels become timestamps, points are
+// sorted chronologically and spacing reflects the real gaps between dates.
+// Series data must be aligned with config.data rows.
+const applyTimeAxis = (
+  config: EChartsElementConfig,
+  option: echarts.EChartsOption
+): echarts.EChartsOption => {
+  if (!config.timeAxis) return option;
+  const times = config.data.map((item) =>
+    parseDateValue(item[config.nameKey], config.timeAxis)
+  );
+  const order = times
+    .map((time, idx) => ({ time, idx }))
+    .filter((entry): entry is { time: number; idx: number } =>
+      entry.time !== null
+    )
+    .sort((a, b) => a.time - b.time);
+  const toTimePairs = (data: unknown) =>
+    Array.isArray(data) && data.length === config.data.length
+      ? order.map(({ time, idx }) => [time, data[idx]])
+      : data;
+
+  const series = Array.isArray(option.series)
+    ? option.series
+    : option.series
+    ? [option.series]
+    : [];
+  // Keep the axis name, position and label styling; category names and
+  // "label every category" intervals don't apply to timestamps
+  const xAxis: Record<string, unknown> = { ...(option.xAxis as object) };
+  delete xAxis.data;
+  const axisLabel: Record<string, unknown> = {
+    ...(xAxis.axisLabel as object),
+  };
+  delete axisLabel.interval;
+  return {
+    ...option,
+    xAxis: {
+      ...xAxis,
+      type: "time",
+      axisLabel: { ...axisLabel, hideOverlap: true },
+    } as echarts.XAXisComponentOption,
+    series: series.map(
+      (item) =>
+        ({
+          ...item,
+          data: toTimePairs(item.data),
+        } as echarts.SeriesOption)
+    ),
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Points a scatter trendline is drawn through
+const TREND_GRID_SIZE = 50;
+
+// x values a line chart's trendline regresses against: timestamps on a time
+// axis, the labels themselves when every one is a plain number, otherwise
+// the row index
+const trendlineXValues = (
+  config: EChartsElementConfig
+): Array<number | null> => {
+  if (config.timeAxis) {
+    return config.data.map((item) =>
+      parseDateValue(item[config.nameKey], config.timeAxis)
+    );
+  }
+  const labels = config.data.map((item) => item[config.nameKey]);
+  const numeric = labels.every(
+    (label) =>
+      (typeof label === "number" && Number.isFinite(label)) ||
+      (typeof label === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(label))
+  );
+  return labels.map((label, idx) => (numeric ? Number(label) : idx));
+};
+
+// Trendline series for `key` fitted to `points`, plus a shaded confidence
+// band when one is requested. The trend is evaluated at `xs`; with
+// `asPairs` each value is an [x, y] pair, otherwise it is aligned with xs.
+// Time x values are fitted as days since the first point, so the equation
+// stays readable.
+const buildTrendlineSeries = (
+  config: EChartsElementConfig,
+  key: string,
+  idx: number,
+  points: Array<[number, number]>,
+  xs: Array<number | null>,
+  asPairs: boolean
+): echarts.SeriesOption[] => {
+  const options = { ...DEFAULT_TRENDLINE_OPTIONS, ...config.trendline };
+  const origin = config.timeAxis ? minValue(points.map(([x]) => x)) : 0;
+  const toFitX = (x: number) =>
+    config.timeAxis ? (x - origin) / DAY_MS + 1 : x;
+  const fit = fitTrendline(points.map(([x, y]) => [toFitX(x), y]), options);
+  if (!fit) return [];
+
+  const color = seriesColor(config, key, idx);
+  const shape = (x: number | null, value: number | null | undefined) => {
+    const y =
+      value === undefined || value === null || !Number.isFinite(value)
+        ? null
+        : value;
+    return asPairs ? [x, y] : y;
+  };
+  const name = options.showEquation
+    ? `${key} Trend: ${describeFit(fit)}${
+        config.timeAxis
+          ? `, x = days from ${new Date(origin).toISOString().slice(0, 10)}`
+          : ""
+      }`
+    : `${key} Trend`;
+  const series: echarts.SeriesOption[] = [
+    {
+      name,
+      type: "line",
+      data: xs.map((x) =>
+        shape(x, x === null ? null : fit.predict(toFitX(x)))
+      ),
+      lineStyle: { color, type: "dashed", width: 2 },
+      itemStyle: { color, opacity: 0 },
+      symbol: "none",
+      z: 3,
+    } as echarts.SeriesOption,
+  ];
+
+  if (fit.band && options.confidence) {
+    const bounds = xs.map((x) =>
+      x === null ? null : fit.band?.(toFitX(x)) ?? null
+    );
+    // A transparent lower bound with the band's width stacked on top; the
+    // "all" strategy stacks onto negative bounds too, where the default
+    // "samesign" would draw the width from zero
+    const bandName = `${key} ${Math.round(options.confidence * 100)}% CI`;
+    const stack = `${key}-confidence`;
+    series.push(
+      {
+        name: bandName,
+        type: "line",
+        stack,
+        stackStrategy: "all",
+        data: xs.map((x, i) => shape(x, bounds[i]?.[0])),
+        lineStyle: { opacity: 0 },
+        itemStyle: { color },
+        symbol: "none",
+        silent: true,
+        tooltip: { show: false },
+      } as echarts.SeriesOption,
+      {
+        name: bandName,
+        type: "line",
+        stack,
+        stackStrategy: "all",
+        data: xs.map((x, i) =>
+          shape(x, bounds[i] ? bounds[i]![1] - bounds[i]![0] : null)
+        ),
+        lineStyle: { opacity: 0 },
+        itemStyle: { color },
+        areaStyle: { color, opacity: 0.15 },
+        symbol: "none",
+        silent: true,
+        tooltip: { show: false },
+      } as echarts.SeriesOption
+    );
+  }
+  return series;
+};
+
+// Keys that get a trendline: every series for multiple trendlines,
+// otherwise just the value key
+const trendlineKeys = (config: EChartsElementConfig): string[] =>
+  config.multipleTrendlines && config.dataKeys
+    ? config.dataKeys
+    : [config.valueKey];
+
+// Trendlines over scatter-style points, drawn across each series' x range
+const scatterTrendlines = (
+  config: EChartsElementConfig,
+  keys: string[]
+): echarts.SeriesOption[] => {
+  if (!config.hasTrendline) return [];
+  return trendlineKeys(config).flatMap((key) => {
+    const points = resolveScatterPoints(config, key);
+    if (points.length < 2) return [];
+    const xs = points.map(([x]) => x);
+    const min = minValue(xs);
+    const max = maxValue(xs);
+    const grid = Array.from(
+      { length: TREND_GRID_SIZE },
+      (_, i) => min + ((max - min) * i) / (TREND_GRID_SIZE - 1)
+    );
+    return buildTrendlineSeries(
+      config,
+      key,
+      Math.max(0, keys.indexOf(key)),
+      points,
+      grid,
+      true
+    );
+  });
 };
 
-export const generateRandomColors = (count: number): string[] => {
-  return Array.from({ length: count }, () => generateRandomColor());
+// Legend entries for series, without repeating a band's paired name
+const legendNames = (series: echarts.SeriesOption[]): string[] =>
+  Array.from(
+    new Set(
+      series
+        .map((item) => item.name)
+        .filter((name): name is string => typeof name === "string")
+    )
+  );
+
+// Name series and the value axis after the measure they plot, e.g.
+// "mean(quality_score)", so the legend and tooltips say what is shown.
+// Pivoted series are named after their labels, so only the axis names the
+// measure.
+export const applyMeasureLabels = (
+  config: EChartsElementConfig,
+  option: echarts.EChartsOption
+): echarts.EChartsOption => {
+  const aggregation = config.aggregation ?? config.resample?.aggregation;
+  if (!aggregation && !config.seriesKey) return option;
+  const measure = (key: string) =>
+    aggregation ? `${aggregation}(${key})` : key;
+  const keys = config.seriesKey ? [] : config.dataKeys || [config.valueKey];
+  const label = <T,>(name: T): T | string =>
+    typeof name === "string" && keys.includes(name) ? measure(name) : name;
+
+  const series = Array.isArray(option.series)
+    ? option.series
+    : option.series
+    ? [option.series]
+    : [];
+  const legend = option.legend;
+  const yAxis = option.yAxis;
+  const valueAxis =
+    yAxis && !Array.isArray(yAxis) && yAxis.type === "value" && !yAxis.name
+      ? yAxis
+      : undefined;
+  return {
+    ...option,
+    series: series.map(
+      (item) => ({ ...item, name: label(item.name) } as echarts.SeriesOption)
+    ),
+    ...(legend &&
+      !Array.isArray(legend) &&
+      Array.isArray(legend.data) && {
+        legend: {
+          ...legend,
+          data: legend.data.map((entry) =>
+            typeof entry === "string" ? label(entry) : entry
+          ),
+        },
+      }),
+    ...(valueAxis && {
+      yAxis: {
+        ...valueAxis,
+        name: config.seriesKey
+          ? measure(config.valueKey)
+          : keys.length === 1
+          ? label(keys[0])
+          : aggregation,
+      },
+    }),
+  };
 };
 
-let cachedColors: string[] = [];
-export const getRandomColorPalette = (count: number = 20): string[] => {
-  if (cachedColors.length < count) {
-    cachedColors = generateRandomColors(Math.max(count, 20));
+// Window-transformed series: tooltips list each transformed value with the
+// raw value it came from, and the value axis says what is plotted. Ranks
+// read top-down from 1.
+export const applyTransformLabels = (
+  config: EChartsElementConfig,
+  option: echarts.EChartsOption
+): echarts.EChartsOption => {
+  const { transform } = config;
+  if (!transform) return option;
+  const keys = config.dataKeys || [config.valueKey];
+  const unit = isPercentTransform(transform) ? "%" : "";
+  const formatValue = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? `${Number(value.toFixed(2))}${unit}`
+      : formatMissingValue(value);
+
+  // Time axes reorder points, so look rows up by timestamp there
+  const rowsByTime = new Map<number, ChartDataPoint>();
+  if (config.timeAxis) {
+    config.data.forEach((item) => {
+      const time = parseDateValue(item[config.nameKey], config.timeAxis);
+      if (time !== null && !rowsByTime.has(time)) rowsByTime.set(time, item);
+    });
   }
-  return cachedColors.slice(0, count);
+
+  const formatter = (
+    params: echarts.TooltipComponentFormatterCallbackParams
+  ) => {
+    const list = Array.isArray(params) ? params : [params];
+    if (list.length === 0) return "";
+    const first = list[0] as typeof list[number] & { axisValueLabel?: string };
+    const lines = list.map((p) => {
+      const point = Array.isArray(p.value) ? p.value : [undefined, p.value];
+      const row = config.timeAxis
+        ? rowsByTime.get(Number(point[0]))
+        : config.data[p.dataIndex];
+      const key = keys[p.seriesIndex ?? -1];
+      const raw = key && row ? row[rawValueKey(key)] : undefined;
+      return `${typeof p.marker === "string" ? p.marker : ""}${
+        p.seriesName
+      }: ${formatValue(point[1])}${
+        raw !== undefined ? ` (raw ${formatMissingValue(raw)})` : ""
+      }`;
+    });
+    return [first.axisValueLabel ?? first.name, ...lines].join("<br/>");
+  };
+
+  const tooltip = option.tooltip;
+  const yAxis = option.yAxis;
+  const valueAxis =
+    yAxis && !Array.isArray(yAxis) && yAxis.type === "value"
+      ? yAxis
+      : undefined;
+  return {
+    ...option,
+    ...(tooltip &&
+      !Array.isArray(tooltip) && { tooltip: { ...tooltip, formatter } }),
+    ...(valueAxis && {
+      yAxis: {
+        ...valueAxis,
+        name: valueAxis.name ?? describeTransform(transform),
+        ...(unit && {
+          axisLabel: { ...valueAxis.axisLabel, formatter: `{value}${unit}` },
+        }),
+        ...(transform.type === "rank" && {
+          inverse: true,
+          min: 1,
+          minInterval: 1,
+        }),
+      },
+    }),
+  };
 };
 
+// Give each top-level branch of a hierarchy its own palette color;
+// descendants inherit it
+const colorTopLevel = (
+  roots: HierarchyNode[],
+  config: EChartsElementConfig
+) =>
+  roots.map((root, idx) => ({
+    ...root,
+    itemStyle: {
+      color: seriesColor(config, root.name, idx),
+    },
+  }));
+
 // ECharts chart type configurations
 export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
   // Bar Charts
@@ -54,17 +565,14 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const series = keys.map((key, idx) => ({
         name: key,
         type: "bar" as const,
-        data: config.data.map((item) => {
-          const val = item[key];
-          return typeof val === "number" ? val : 0;
-        }),
+        data: seriesValues(config, key),
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         ...(config.isStacked && { stack: "stack1" }),
       }));
 
-      return {
+      return applyTimeAxis(config, {
         animation: true,
         animationDuration: 1000,
         animationEasing: "cubicOut",
@@ -73,6 +581,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           axisPointer: {
             type: "shadow",
           },
+          valueFormatter: formatMissingValue,
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -122,7 +631,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         series,
-      };
+      });
     },
   },
 
@@ -135,17 +644,14 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const series = keys.map((key, idx) => ({
         name: key,
         type: "bar" as const,
-        data: config.data.map((item) => {
-          const val = item[key];
-          return typeof val === "number" ? val : 0;
-        }),
+        data: seriesValues(config, key),
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         stack: "stack1",
       }));
 
-      return {
+      return applyTimeAxis(config, {
         animation: true,
         animationDuration: 1000,
         animationEasing: "cubicOut",
@@ -154,6 +660,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           axisPointer: {
             type: "shadow",
           },
+          valueFormatter: formatMissingValue,
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -203,7 +710,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         series,
-      };
+      });
     },
   },
 
@@ -216,16 +723,13 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const series = keys.map((key, idx) => ({
         name: key,
         type: "bar" as const,
-        data: config.data.map((item) => {
-          const val = item[key];
-          return typeof val === "number" ? val : 0;
-        }),
+        data: seriesValues(config, key),
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
       }));
 
-      return {
+      return applyTimeAxis(config, {
         animation: true,
         animationDuration: 1000,
         animationEasing: "cubicOut",
@@ -234,6 +738,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           axisPointer: {
             type: "shadow",
           },
+          valueFormatter: formatMissingValue,
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -283,7 +788,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         series,
-      };
+      });
     },
   },
 
@@ -297,64 +802,42 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const series: echarts.SeriesOption[] = keys.map((key, idx) => ({
         name: key,
         type: "line" as const,
-        data: config.data.map((item) => {
-          const val = item[key];
-          return typeof val === "number" ? val : 0;
-        }),
+        data: seriesValues(config, key),
         lineStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         smooth: true,
+        connectNulls: config.missingValues === "connect",
       }));
 
-      // Add trendlines if requested
+      // Add trendlines if requested, regressed against the real x values
       if (config.hasTrendline) {
-        const trendlineKeys =
-          config.multipleTrendlines && config.dataKeys
-            ? config.dataKeys
-            : [config.valueKey];
-
-        trendlineKeys.forEach((key, idx) => {
-          const values = config.data.map((item) => {
-            const val = item[key];
-            return typeof val === "number" ? val : 0;
-          });
-
-          // Calculate linear regression
-          const n = values.length;
-          const sumX = values.reduce((sum, _, i) => sum + i, 0);
-          const sumY = values.reduce((sum, val) => sum + val, 0);
-          const sumXY = values.reduce((sum, val, i) => sum + i * val, 0);
-          const sumXX = values.reduce((sum, _, i) => sum + i * i, 0);
-
-          const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-          const intercept = (sumY - slope * sumX) / n;
-
-          const trendlineData = values.map((_, i) => slope * i + intercept);
-          const trendlineColors = generateRandomColors(10);
-
-          series.push({
-            name: `${key} Trend`,
-            type: "line" as const,
-            data: trendlineData,
-            lineStyle: {
-              color: trendlineColors[idx % trendlineColors.length],
-              type: "dashed" as const,
-              width: 2,
-            },
-            itemStyle: {
-              color: trendlineColors[idx % trendlineColors.length],
-              opacity: 0,
-            },
-            symbol: "none",
-          } as echarts.SeriesOption);
+        const xs = trendlineXValues(config);
+        trendlineKeys(config).forEach((key) => {
+          const values = seriesValues(config, key);
+          const points = values
+            .map((value, i) => [xs[i], value] as const)
+            .filter((point): point is readonly [number, number] =>
+              point[0] !== null && point[1] !== null
+            )
+            .map(([x, y]): [number, number] => [x, y]);
+          series.push(
+            ...buildTrendlineSeries(
+              config,
+              key,
+              Math.max(0, keys.indexOf(key)),
+              points,
+              xs,
+              false
+            )
+          );
         });
       }
 
-      return {
+      return applyTimeAxis(config, {
         animation: true,
         animationDuration: 1000,
         animationEasing: "cubicOut",
@@ -363,6 +846,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           axisPointer: {
             type: "line",
           },
+          valueFormatter: formatMissingValue,
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -371,10 +855,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         legend: {
-          data: [
-            ...keys,
-            ...(config.hasTrendline ? keys.map((k) => `${k} Trend`) : []),
-          ],
+          data: legendNames(series),
           top: "top",
           textStyle: {
             fontSize: 12,
@@ -415,7 +896,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         series,
-      };
+      });
     },
   },
 
@@ -429,25 +910,23 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const series = keys.map((key, idx) => ({
         name: key,
         type: "line" as const,
-        data: config.data.map((item) => {
-          const val = item[key];
-          return typeof val === "number" ? val : 0;
-        }),
+        data: seriesValues(config, key),
         areaStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
           opacity: 0.6,
         },
         lineStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         smooth: true,
+        connectNulls: config.missingValues === "connect",
         ...(config.isStacked && { stack: "stack1" }),
       }));
 
-      return {
+      return applyTimeAxis(config, {
         animation: true,
         animationDuration: 1000,
         animationEasing: "cubicOut",
@@ -456,6 +935,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           axisPointer: {
             type: "shadow",
           },
+          valueFormatter: formatMissingValue,
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -505,7 +985,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         series,
-      };
+      });
     },
   },
 
@@ -518,25 +998,23 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const series = keys.map((key, idx) => ({
         name: key,
         type: "line" as const,
-        data: config.data.map((item) => {
-          const val = item[key];
-          return typeof val === "number" ? val : 0;
-        }),
+        data: seriesValues(config, key),
         areaStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
           opacity: 0.6,
         },
         lineStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
         smooth: true,
+        connectNulls: config.missingValues === "connect",
         stack: "stack1",
       }));
 
-      return {
+      return applyTimeAxis(config, {
         animation: true,
         animationDuration: 1000,
         animationEasing: "cubicOut",
@@ -545,6 +1023,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           axisPointer: {
             type: "shadow",
           },
+          valueFormatter: formatMissingValue,
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -594,7 +1073,140 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         series,
-      };
+      });
+    },
+  },
+
+  // Bars, lines and areas on up to two value axes
+  combo: {
+    chartType: "combo",
+    echartsType: "bar",
+    keywords: [
+      "combo",
+      "combination chart",
+      "combined chart",
+      "mixed chart",
+      "dual axis",
+      "dual-axis",
+      "dual y axis",
+      "bar and line",
+      "line and bar",
+    ],
+    // "revenue as a line chart with growth on the right axis" stays a line
+    fallbackKeywords: ["two axes", "secondary axis", "right axis"],
+    validate: (config) =>
+      (config.dataKeys?.length ?? 0) < 2
+        ? "A combo chart needs at least two numeric fields to plot"
+        : null,
+    generateOption: (config) => {
+      const keys = config.dataKeys || [config.valueKey];
+      const pinned = (config.comboSeries ?? []).filter((item) =>
+        keys.includes(item.key)
+      );
+      const plan =
+        pinned.length > 0 ? pinned : planComboSeries(config.data, keys);
+      const hasRight = plan.some((item) => item.axis === "right");
+      const series: echarts.SeriesOption[] = plan.map((item, idx) => {
+        const color = seriesColor(config, item.key, idx);
+        const data = seriesValues(config, item.key);
+        const yAxisIndex = item.axis === "right" ? 1 : 0;
+        return item.type === "bar"
+          ? {
+              name: item.key,
+              type: "bar" as const,
+              yAxisIndex,
+              data,
+              itemStyle: { color },
+              ...(config.isStacked && { stack: `stack-${item.axis}` }),
+            }
+          : {
+              name: item.key,
+              type: "line" as const,
+              yAxisIndex,
+              data,
+              lineStyle: { color, width: 2 },
+              itemStyle: { color },
+              smooth: true,
+              connectNulls: config.missingValues === "connect",
+              ...(item.type === "area" && {
+                areaStyle: { color, opacity: 0.35 },
+              }),
+            };
+      });
+      const axisName = (axis: "left" | "right") =>
+        plan
+          .filter((item) => item.axis === axis)
+          .map((item) => item.key)
+          .join(", ");
+      const valueAxis = (axis: "left" | "right") => ({
+        type: "value" as const,
+        name: hasRight ? axisName(axis) : undefined,
+        position: axis,
+        alignTicks: true,
+        axisLine: {
+          show: hasRight,
+          lineStyle: {
+            color: "#666",
+          },
+        },
+        splitLine: {
+          show: axis === "left",
+          lineStyle: {
+            type: "dashed" as const,
+            color: "#e0e0e0",
+          },
+        },
+      });
+
+      return applyTimeAxis(config, {
+        animation: true,
+        animationDuration: 1000,
+        animationEasing: "cubicOut",
+        tooltip: {
+          trigger: "axis",
+          axisPointer: {
+            type: "cross",
+          },
+          valueFormatter: formatMissingValue,
+          backgroundColor: "rgba(50, 50, 50, 0.9)",
+          borderColor: "#777",
+          borderWidth: 1,
+          textStyle: {
+            color: "#fff",
+          },
+        },
+        legend: {
+          data: plan.map((item) => item.key),
+          top: "top",
+          textStyle: {
+            fontSize: 12,
+          },
+        },
+        grid: {
+          left: "3%",
+          right: "4%",
+          bottom: "3%",
+          top: "15%",
+          containLabel: true,
+        },
+        xAxis: {
+          type: "category",
+          data: config.data.map((item) => String(item[config.nameKey] || "")),
+          axisLabel: {
+            rotate: config.data.length > 10 ? 45 : 0,
+            interval: 0,
+          },
+          axisLine: {
+            lineStyle: {
+              color: "#666",
+            },
+          },
+        },
+        yAxis: hasRight
+          ? [valueAxis("left"), valueAxis("right")]
+          : valueAxis("left"),
+        series,
+      });
     },
   },
 
@@ -628,7 +1240,11 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
                   : 0,
               name: String(item[config.nameKey] || ""),
               itemStyle: {
-                color: config.colors[idx % config.colors.length],
+                color: seriesColor(
+                  config,
+                  String(item[config.nameKey] || ""),
+                  idx
+                ),
               },
             };
           }),
@@ -685,7 +1301,11 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
                   : 0,
               name: String(item[config.nameKey] || ""),
               itemStyle: {
-                color: config.colors[idx % config.colors.length],
+                color: seriesColor(
+                  config,
+                  String(item[config.nameKey] || ""),
+                  idx
+                ),
               },
             };
           }),
@@ -708,21 +1328,17 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
     keywords: ["scatter", "scatter plot", "scatterplot"],
     generateOption: (config) => {
       const keys = config.dataKeys || [config.valueKey];
-      const series = keys.map((key, idx) => ({
-        name: key,
-        type: "scatter" as const,
-        data: config.data.map((item) => {
-          const xVal = item[config.nameKey];
-          const yVal = item[key];
-          return [
-            typeof xVal === "number" ? xVal : 0,
-            typeof yVal === "number" ? yVal : 0,
-          ];
-        }),
-        itemStyle: {
-          color: config.colors[idx % config.colors.length],
-        },
-      }));
+      const series: echarts.SeriesOption[] = [
+        ...keys.map((key, idx) => ({
+          name: key,
+          type: "scatter" as const,
+          data: resolveScatterPoints(config, key),
+          itemStyle: {
+            color: seriesColor(config, key, idx),
+          },
+        })),
+        ...scatterTrendlines(config, keys),
+      ];
 
       return {
         animation: true,
@@ -737,7 +1353,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         legend: {
-          data: keys,
+          data: legendNames(series),
           top: "top",
           textStyle: {
             fontSize: 12,
@@ -751,7 +1367,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           containLabel: true,
         },
         xAxis: {
-          type: "value",
+          type: config.timeAxis ? "time" : "value",
           axisLine: {
             lineStyle: {
               color: "#666",
@@ -789,27 +1405,23 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
     keywords: ["bubble", "bubbles"],
     generateOption: (config) => {
       const keys = config.dataKeys || [config.valueKey];
-      const series = keys.map((key, idx) => ({
-        name: key,
-        type: "scatter" as const,
-        symbolSize: (data: number[]) => Math.sqrt(data[1]) * 2,
-        data: config.data.map((item) => {
-          const xVal = item[config.nameKey];
-          const yVal = item[key];
-          return [
-            typeof xVal === "number" ? xVal : 0,
-            typeof yVal === "number" ? yVal : 0,
-          ];
-        }),
-        itemStyle: {
-          color: config.colors[idx % config.colors.length],
-        },
-      }));
+      const series: echarts.SeriesOption[] = [
+        ...keys.map((key, idx) => ({
+          name: key,
+          type: "scatter" as const,
+          symbolSize: (data: number[]) => Math.sqrt(data[1]) * 2,
+          data: resolveScatterPoints(config, key),
+          itemStyle: {
+            color: seriesColor(config, key, idx),
+          },
+        })),
+        ...scatterTrendlines(config, keys),
+      ];
 
       return {
         tooltip: { trigger: "item" },
-        legend: { data: keys },
-        xAxis: { type: "value" },
+        legend: { data: legendNames(series) },
+        xAxis: { type: config.timeAxis ? "time" : "value" },
         yAxis: { type: "value" },
         series,
       };
@@ -825,10 +1437,10 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const keys = config.dataKeys || [config.valueKey];
       const indicators = config.data.map((item) => ({
         name: String(item[config.nameKey] || ""),
-        max: Math.max(
-          ...config.data.map((d) => {
-            const maxVal = Math.max(
-              ...keys.map((k) => {
+        max: maxValue(
+          config.data.map((d) => {
+            const maxVal = maxValue(
+              keys.map((k) => {
                 const val = d[k];
                 return typeof val === "number" ? val : 0;
               })
@@ -849,10 +1461,10 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
             }),
             name: key,
             itemStyle: {
-              color: config.colors[idx % config.colors.length],
+              color: seriesColor(config, key, idx),
             },
             areaStyle: {
-              color: config.colors[idx % config.colors.length],
+              color: seriesColor(config, key, idx),
               opacity: 0.6,
             },
           },
@@ -874,104 +1486,236 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
   heatmap: {
     chartType: "heatmap",
     echartsType: "heatmap",
-    keywords: ["heatmap", "heat map"],
-    generateOption: (config) => ({
-      tooltip: {
-        position: "top",
-      },
-      grid: {
-        height: "50%",
-        top: "10%",
-      },
-      xAxis: {
-        type: "category",
-        data: config.data.map((item) => String(item[config.nameKey] || "")),
-        splitArea: {
-          show: true,
-        },
-      },
-      yAxis: {
-        type: "category",
-        splitArea: {
-          show: true,
+    keywords: ["heatmap", "heat map", "matrix"],
+    generateOption: (config) => {
+      const options = config.heatmap || DEFAULT_HEATMAP_OPTIONS;
+      const xCategories: string[] = [];
+      const yCategories: string[] = [];
+      const cells = new Map<string, number[]>();
+
+      const addCell = (x: string, y: string, value: number | null) => {
+        if (!xCategories.includes(x)) xCategories.push(x);
+        if (!yCategories.includes(y)) yCategories.push(y);
+        const cellKey = `${x}\u0000${y}`;
+        if (!cells.has(cellKey)) {
+          cells.set(cellKey, []);
+        }
+        // Count aggregation tallies rows even when the value is missing
+        if (value !== null || options.aggregation === "count") {
+          cells.get(cellKey)!.push(value ?? 0);
+        }
+      };
+
+      if (options.yKey) {
+        // Long format: one row per (x, y) observation
+        config.data.forEach((item) => {
+          addCell(
+            String(item[config.nameKey] ?? ""),
+            String(item[options.yKey!] ?? ""),
+            toFiniteNumber(item[config.valueKey])
+          );
+        });
+      } else {
+        // Wide format: every numeric column becomes a row of the matrix
+        const rowKeys =
+          config.dataKeys ||
+          Array.from(
+            new Set(
+              config.data.flatMap((item) =>
+                Object.keys(item).filter(
+                  (key) =>
+                    key !== config.nameKey &&
+                    toFiniteNumber(item[key]) !== null
+                )
+              )
+            )
+          );
+        config.data.forEach((item) => {
+          rowKeys.forEach((key) => {
+            addCell(
+              String(item[config.nameKey] ?? ""),
+              key,
+              toFiniteNumber(item[key])
+            );
+          });
+        });
+      }
+
+      const heatmapData: Array<[number, number, number | null]> = [];
+      cells.forEach((values, cellKey) => {
+        const [x, y] = cellKey.split("\u0000");
+        heatmapData.push([
+          xCategories.indexOf(x),
+          yCategories.indexOf(y),
+          values.length > 0
+            ? parseFloat(
+                aggregateValues(values, options.aggregation).toFixed(4)
+              )
+            : null,
+        ]);
+      });
+
+      const cellValues = heatmapData
+        .map(([, , value]) => value)
+        .filter((value): value is number => value !== null);
+      let min = cellValues.length > 0 ? minValue(cellValues) : 0;
+      let max = cellValues.length > 0 ? maxValue(cellValues) : 0;
+      if (options.diverging) {
+        // Centre the scale on zero when values straddle it, otherwise on the
+        // midpoint of the range
+        const center = min < 0 && max > 0 ? 0 : (min + max) / 2;
+        const reach = Math.max(Math.abs(max - center), Math.abs(center - min));
+        min = center - reach;
+        max = center + reach;
+      }
+
+      const valueLabel =
+        options.aggregation === "count"
+          ? "count"
+          : `${options.aggregation}(${
+              options.yKey ? config.valueKey : "value"
+            })`;
+
+      return {
+        animation: true,
+        animationDuration: 1000,
+        tooltip: {
+          position: "top",
+          formatter: (
+            params: echarts.TooltipComponentFormatterCallbackParams
+          ) => {
+            const p = Array.isArray(params) ? params[0] : params;
+            const value = p?.value as [number, number, number | null];
+            if (!value) return "";
+            return `${xCategories[value[0]]} × ${
+              yCategories[value[1]]
+            }<br/>${valueLabel}: ${formatMissingValue(value[2])}`;
+          },
+          backgroundColor: "rgba(50, 50, 50, 0.9)",
+          borderColor: "#777",
+          borderWidth: 1,
+          textStyle: {
+            color: "#fff",
+          },
         },
-      },
-      visualMap: {
-        min: 0,
-        max: Math.max(
-          ...config.data.map((item) => {
-            const val = item[config.valueKey];
-            return typeof val === "number" ? val : 0;
-          })
-        ),
-        calculable: true,
-        orient: "horizontal",
-        left: "center",
-        bottom: "15%",
-        inRange: {
-          color: config.colors,
+        grid: {
+          left: "3%",
+          right: "4%",
+          top: "5%",
+          bottom: "20%",
+          containLabel: true,
         },
-      },
-      series: [
-        {
-          name: config.valueKey,
-          type: "heatmap",
-          data: config.data.map((item, idx) => {
-            const val = item[config.valueKey];
-            return [
-              idx,
-              0,
-              typeof val === "number"
-                ? val
-                : typeof val === "string"
-                ? parseFloat(val) || 0
-                : 0,
-            ];
-          }),
-          label: {
+        xAxis: {
+          type: "category",
+          name: config.nameKey,
+          data: xCategories,
+          splitArea: {
             show: true,
           },
-          emphasis: {
-            itemStyle: {
-              shadowBlur: 10,
-              shadowColor: "rgba(0, 0, 0, 0.5)",
-            },
+          axisLabel: {
+            rotate: xCategories.length > 10 ? 45 : 0,
+            interval: 0,
           },
         },
-      ],
-    }),
-  },
-
+        yAxis: {
+          type: "category",
+          name: options.yKey,
+          data: yCategories,
+          splitArea: {
+            show: true,
+          },
+        },
+        visualMap: {
+          min,
+          max,
+          calculable: true,
+          orient: "horizontal",
+          left: "center",
+          bottom: "2%",
+          inRange: {
+            color: getScaleColors(config.palette, options.diverging),
+          },
+        },
+        series: [
+          {
+            name: valueLabel,
+            type: "heatmap",
+            data: heatmapData,
+            label: {
+              show: xCategories.length * yCategories.length <= 100,
+            },
+            emphasis: {
+              itemStyle: {
+                shadowBlur: 10,
+                shadowColor: "rgba(0, 0, 0, 0.5)",
+              },
+            },
+          },
+        ],
+      };
+    },
+  },
+
   // Treemap
   treemap: {
     chartType: "treemap",
     echartsType: "treemap",
     keywords: ["treemap", "tree map", "hierarchy"],
-    generateOption: (config) => ({
-      tooltip: {
-        trigger: "item",
-      },
-      series: [
-        {
-          type: "treemap",
-          data: config.data.map((item, idx) => {
-            const val = item[config.valueKey];
-            return {
-              name: String(item[config.nameKey] || ""),
-              value:
-                typeof val === "number"
-                  ? val
-                  : typeof val === "string"
-                  ? parseFloat(val) || 0
-                  : 0,
-              itemStyle: {
-                color: config.colors[idx % config.colors.length],
-              },
+    generateOption: (config) => {
+      // Rows may nest, so top-N applies to the top-level branches
+      const { roots: allRoots } = buildHierarchy(config.data, config);
+      const roots = config.rank
+        ? rankItems(allRoots, (root) => root.value, config.rank, (rest) => ({
+            name: OTHER_LABEL,
+            value: rest.reduce((sum, root) => sum + root.value, 0),
+          }))
+        : allRoots;
+      return {
+        tooltip: {
+          trigger: "item",
+          formatter: (
+            params: echarts.TooltipComponentFormatterCallbackParams
+          ) => {
+            const p = Array.isArray(params) ? params[0] : params;
+            const { treePathInfo } = p as {
+              treePathInfo?: Array<{ name: string }>;
             };
-          }),
+            const path = (treePathInfo || [])
+              .map((info) => info.name)
+              .filter((name) => name.length > 0)
+              .join(" / ");
+            return `${path || p.name}: ${p.value}`;
+          },
         },
-      ],
-    }),
+        series: [
+          {
+            type: "treemap",
+            name: config.valueKey,
+            data: colorTopLevel(roots, config),
+            leafDepth: roots.some((root) => root.children) ? 2 : undefined,
+            upperLabel: {
+              show: true,
+              height: 24,
+            },
+            levels: [
+              {
+                itemStyle: {
+                  borderColor: "#fff",
+                  borderWidth: 2,
+                  gapWidth: 2,
+                },
+              },
+              {
+                itemStyle: {
+                  borderColorSaturation: 0.6,
+                  gapWidth: 1,
+                },
+              },
+            ],
+          },
+        ],
+      };
+    },
   },
 
   // Funnel
@@ -993,15 +1737,15 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           bottom: 60,
           width: "80%",
           min: 0,
-          max: Math.max(
-            ...config.data.map((item) => {
+          max: maxValue(
+            config.data.map((item) => {
               const val = item[config.valueKey];
               return typeof val === "number" ? val : 0;
             })
           ),
           minSize: "0%",
           maxSize: "100%",
-          sort: "descending",
+          sort: config.rank?.direction === "asc" ? "ascending" : "descending",
           gap: 2,
           label: {
             show: true,
@@ -1034,7 +1778,11 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
                   : 0,
               name: String(item[config.nameKey] || ""),
               itemStyle: {
-                color: config.colors[idx % config.colors.length],
+                color: seriesColor(
+                  config,
+                  String(item[config.nameKey] || ""),
+                  idx
+                ),
               },
             };
           }),
@@ -1261,35 +2009,27 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
     chartType: "sunburst",
     echartsType: "sunburst",
     keywords: ["sunburst", "sun burst", "hierarchical pie"],
-    generateOption: (config) => ({
-      tooltip: {
-        trigger: "item",
-      },
-      series: [
-        {
-          type: "sunburst",
-          data: config.data.map((item, idx) => {
-            const val = item[config.valueKey];
-            return {
-              name: String(item[config.nameKey] || ""),
-              value:
-                typeof val === "number"
-                  ? val
-                  : typeof val === "string"
-                  ? parseFloat(val) || 0
-                  : 0,
-              itemStyle: {
-                color: config.colors[idx % config.colors.length],
-              },
-            };
-          }),
-          radius: [0, "90%"],
-          label: {
-            rotate: "radial",
-          },
+    generateOption: (config) => {
+      const { roots } = buildHierarchy(config.data, config);
+      return {
+        tooltip: {
+          trigger: "item",
         },
-      ],
-    }),
+        series: [
+          {
+            type: "sunburst",
+            data: colorTopLevel(roots, config),
+            radius: [0, "90%"],
+            emphasis: {
+              focus: "ancestor",
+            },
+            label: {
+              rotate: "radial",
+            },
+          },
+        ],
+      };
+    },
   },
 
   // Gauge/Radial Bar
@@ -1348,7 +2088,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
         }),
         coordinateSystem: "polar" as const,
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
       }));
 
@@ -1369,28 +2109,120 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
   histogram: {
     chartType: "histogram",
     echartsType: "bar",
-    keywords: ["histogram", "histograms"],
-    generateOption: (config) => ({
-      tooltip: { trigger: "axis" },
-      xAxis: {
-        type: "category",
-        data: config.data.map((item) => String(item[config.nameKey] || "")),
-      },
-      yAxis: { type: "value" },
-      series: [
-        {
+    keywords: [
+      "histogram",
+      "histograms",
+      "density histogram",
+      "cumulative histogram",
+      "frequency distribution",
+    ],
+    generateOption: (config) => {
+      // Bin the raw observations of the value column
+      const options = config.histogram || DEFAULT_HISTOGRAM_OPTIONS;
+      const bins = computeHistogramBins(
+        extractNumericValues(config.data, config.valueKey),
+        options
+      );
+      const labels = bins.map(
+        (bin) => `${formatBinEdge(bin.x0)}–${formatBinEdge(bin.x1)}`
+      );
+      const yAxisName =
+        options.mode === "density"
+          ? "Density"
+          : options.mode === "cumulative"
+          ? "Cumulative %"
+          : "Count";
+
+      const tooltipFormatter: echarts.TooltipComponentFormatterCallback<
+        echarts.TooltipComponentFormatterCallbackParams
+      > = (params: echarts.TooltipComponentFormatterCallbackParams) => {
+        const first = Array.isArray(params) ? params[0] : params;
+        const bin = bins[first?.dataIndex ?? -1];
+        if (!bin) return "";
+        return [
+          `${config.valueKey}: ${labels[first.dataIndex]}`,
+          `Count: ${bin.count}`,
+          `Density: ${bin.density.toPrecision(3)}`,
+          `Cumulative: ${(bin.cumulative * 100).toFixed(1)}%`,
+        ].join("<br/>");
+      };
+
+      return {
+        animation: true,
+        animationDuration: 1000,
+        animationEasing: "cubicOut",
+        tooltip: {
+          trigger: "axis",
+          axisPointer: {
+            type: "shadow",
+          },
+          formatter: tooltipFormatter,
+          backgroundColor: "rgba(50, 50, 50, 0.9)",
+          borderColor: "#777",
+          borderWidth: 1,
+          textStyle: {
+            color: "#fff",
+          },
+        },
+        grid: {
+          left: "3%",
+          right: "4%",
+          bottom: "3%",
+          top: "10%",
+          containLabel: true,
+        },
+        xAxis: {
+          type: "category",
           name: config.valueKey,
-          type: "bar",
-          data: config.data.map((item) => {
-            const val = item[config.valueKey];
-            return typeof val === "number" ? val : 0;
-          }),
-          itemStyle: {
-            color: config.colors[0],
+          nameLocation: "middle",
+          nameGap: 30,
+          data: labels,
+          axisLabel: {
+            rotate: bins.length > 10 ? 45 : 0,
+          },
+          axisLine: {
+            lineStyle: {
+              color: "#666",
+            },
           },
         },
-      ],
-    }),
+        yAxis: {
+          type: "value",
+          name: yAxisName,
+          ...(options.mode === "cumulative" && { max: 100 }),
+          axisLine: {
+            lineStyle: {
+              color: "#666",
+            },
+          },
+          splitLine: {
+            lineStyle: {
+              type: "dashed",
+              color: "#e0e0e0",
+            },
+          },
+        },
+        series: [
+          {
+            name: config.valueKey,
+            type: "bar",
+            barCategoryGap: "0%",
+            data: bins.map((bin) =>
+              options.mode === "density"
+                ? bin.density
+                : options.mode === "cumulative"
+                ? parseFloat((bin.cumulative * 100).toFixed(2))
+                : bin.count
+            ),
+            itemStyle: {
+              color: config.colors[0],
+              borderColor: "#fff",
+              borderWidth: 1,
+            },
+          },
+        ],
+      };
+    },
   },
 
   // Box Plot
@@ -1399,25 +2231,112 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
     echartsType: "boxplot",
     keywords: ["box plot", "boxplot", "box and whisker"],
     generateOption: (config) => {
-      // Box plot requires calculated quartiles
-      const values = config.data
-        .map((item) => {
-          const val = item[config.valueKey];
-          return typeof val === "number" ? val : 0;
-        })
-        .sort((a, b) => a - b);
-
-      const q1 = values[Math.floor(values.length * 0.25)];
-      const median = values[Math.floor(values.length * 0.5)];
-      const q3 = values[Math.floor(values.length * 0.75)];
-      const min = values[0];
-      const max = values[values.length - 1];
+      // Group observations by category, keeping first-seen order
+      const groupKey = config.groupKey || config.nameKey;
+      const groups = new Map<string, number[]>();
+      config.data.forEach((item) => {
+        const num = toFiniteNumber(item[config.valueKey]);
+        if (num === null) return;
+        const group = String(item[groupKey] ?? "");
+        if (!groups.has(group)) {
+          groups.set(group, []);
+        }
+        groups.get(group)!.push(num);
+      });
+
+      // A label that is unique per observation can't form groups -
+      // summarise the whole column as a single box instead. Rows with a
+      // missing value never reach a group, so count what was kept.
+      const allValues = Array.from(groups.values()).flat();
+      if (groups.size > 1 && groups.size === allValues.length) {
+        groups.clear();
+        groups.set(config.valueKey, allValues);
+      }
+
+      const categories = Array.from(groups.keys());
+      const stats = categories.map((category) =>
+        computeBoxplotStats(groups.get(category) || [])
+      );
+
+      const outlierData: Array<[number, number]> = [];
+      stats.forEach((stat, idx) => {
+        stat?.outliers.forEach((val) => outlierData.push([idx, val]));
+      });
+
+      const tooltipFormatter: echarts.TooltipComponentFormatterCallback<
+        echarts.TooltipComponentFormatterCallbackParams
+      > = (params: echarts.TooltipComponentFormatterCallbackParams) => {
+        const p = Array.isArray(params) ? params[0] : params;
+        if (!p) return "";
+        if (p.seriesType === "boxplot") {
+          const stat = stats[p.dataIndex];
+          if (!stat) return "";
+          return [
+            `<strong>${categories[p.dataIndex]}</strong>`,
+            `Upper whisker: ${stat.upperWhisker}`,
+            `Q3: ${stat.q3}`,
+            `Median: ${stat.median}`,
+            `Q1: ${stat.q1}`,
+            `Lower whisker: ${stat.lowerWhisker}`,
+            `Mean: ${parseFloat(stat.mean.toFixed(4))}`,
+            `n = ${stat.count}`,
+          ].join("<br/>");
+        }
+        const value = p.value as [number, number];
+        return `${categories[value[0]]}<br/>${p.seriesName}: ${value[1]}`;
+      };
+
+      const series: echarts.SeriesOption[] = [
+        {
+          name: config.valueKey,
+          type: "boxplot",
+          data: stats.map((stat) =>
+            stat
+              ? [
+                  stat.lowerWhisker,
+                  stat.q1,
+                  stat.median,
+                  stat.q3,
+                  stat.upperWhisker,
+                ]
+              : []
+          ),
+          itemStyle: {
+            color: config.colors[0],
+            borderColor: "#333",
+          },
+        },
+        {
+          name: "Outliers",
+          type: "scatter",
+          data: outlierData,
+          symbolSize: 8,
+          itemStyle: {
+            color: config.colors[1 % config.colors.length],
+          },
+        },
+      ];
+
+      if (config.showMean) {
+        series.push({
+          name: "Mean",
+          type: "scatter",
+          symbol: "diamond",
+          symbolSize: 10,
+          data: stats.map((stat, idx) => (stat ? [idx, stat.mean] : [])),
+          itemStyle: {
+            color: config.colors[2 % config.colors.length],
+            borderColor: "#333",
+          },
+        });
+      }
 
       return {
         animation: true,
         animationDuration: 1000,
         tooltip: {
           trigger: "item",
+          formatter: tooltipFormatter,
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -1425,18 +2344,30 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
             color: "#fff",
           },
         },
+        legend: {
+          data: [
+            config.valueKey,
+            ...(outlierData.length > 0 ? ["Outliers"] : []),
+            ...(config.showMean ? ["Mean"] : []),
+          ],
+          top: "top",
+          textStyle: {
+            fontSize: 12,
+          },
+        },
         grid: {
           left: "3%",
           right: "4%",
           bottom: "3%",
-          top: "10%",
+          top: "15%",
           containLabel: true,
         },
         xAxis: {
           type: "category",
-          data: config.data.map((item) => String(item[config.nameKey] || "")),
+          data: categories,
+          boundaryGap: true,
           axisLabel: {
-            rotate: config.data.length > 10 ? 45 : 0,
+            rotate: categories.length > 10 ? 45 : 0,
             interval: 0,
           },
           axisLine: {
@@ -1447,6 +2378,8 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
         },
         yAxis: {
           type: "value",
+          name: config.valueKey,
+          scale: true,
           axisLine: {
             lineStyle: {
               color: "#666",
@@ -1459,16 +2392,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
             },
           },
         },
-        series: [
-          {
-            name: config.valueKey,
-            type: "boxplot",
-            data: [[min, q1, median, q3, max]],
-            itemStyle: {
-              color: config.colors[0],
-            },
-          },
-        ],
+        series,
       };
     },
   },
@@ -1516,108 +2440,65 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
   density: {
     chartType: "density",
     echartsType: "line",
-    keywords: ["density plot", "density"],
-    generateOption: (config) => ({
-      animation: true,
-      animationDuration: 1000,
-      animationEasing: "cubicOut",
-      tooltip: {
-        trigger: "axis",
-        backgroundColor: "rgba(50, 50, 50, 0.9)",
-        borderColor: "#777",
-        borderWidth: 1,
-        textStyle: {
-          color: "#fff",
-        },
-      },
-      grid: {
-        left: "3%",
-        right: "4%",
-        bottom: "3%",
-        top: "10%",
-        containLabel: true,
-      },
-      xAxis: {
-        type: "category",
-        data: config.data.map((item) => String(item[config.nameKey] || "")),
-        axisLabel: {
-          rotate: config.data.length > 10 ? 45 : 0,
-          interval: 0,
-        },
-        axisLine: {
-          lineStyle: {
-            color: "#666",
-          },
-        },
-      },
-      yAxis: {
-        type: "value",
-        axisLine: {
-          lineStyle: {
-            color: "#666",
-          },
-        },
-        splitLine: {
-          lineStyle: {
-            type: "dashed",
-            color: "#e0e0e0",
-          },
-        },
-      },
-      series: [
-        {
-          name: config.valueKey,
-          type: "line",
-          areaStyle: {
-            color: config.colors[0],
-            opacity: 0.6,
-          },
-          lineStyle: {
-            color: config.colors[0],
-          },
-          smooth: true,
-          data: config.data.map((item) => {
-            const val = item[config.valueKey];
-            return typeof val === "number" ? val : 0;
-          }),
-        },
-      ],
-    }),
-  },
-
-  // Candlestick Chart (Financial)
-  candlestick: {
-    chartType: "candlestick",
-    echartsType: "candlestick",
-    keywords: [
-      "candlestick",
-      "candle",
-      "ohlc",
-      "financial",
-      "stock",
-      "trading",
-    ],
+    keywords: ["density plot", "density", "kde", "kernel density"],
     generateOption: (config) => {
-      // Candlestick requires [open, close, low, high] format
+      // One kernel density estimate per numeric column, on a shared grid
+      const options = config.density || DEFAULT_DENSITY_OPTIONS;
       const keys = config.dataKeys || [config.valueKey];
-      const ohlcKeys =
-        keys.length >= 4
-          ? keys.slice(0, 4)
-          : [
-              keys[0],
-              keys[0] || config.valueKey,
-              keys[0] || config.valueKey,
-              keys[0] || config.valueKey,
-            ];
+      const samples = keys.map((key) => ({
+        key,
+        values: extractNumericValues(config.data, key),
+      }));
+      const bandwidths = samples.map(({ values }) =>
+        options.bandwidth || silvermanBandwidth(values)
+      );
+      const allValues = samples.flatMap(({ values }) => values);
+      const min = allValues.length > 0 ? minValue(allValues) : 0;
+      const max = allValues.length > 0 ? maxValue(allValues) : 1;
+      const grid = buildEvaluationGrid(
+        min,
+        max,
+        Math.max(maxValue(bandwidths), 0) * kernelReach(options.kernel),
+        options.gridSize
+      );
+
+      const series: echarts.SeriesOption[] = samples.map(
+        ({ key, values }, idx) => {
+          const densities = kernelDensityEstimate(
+            values,
+            grid,
+            bandwidths[idx],
+            options.kernel
+          );
+          const color = seriesColor(config, key, idx);
+          return {
+            name: key,
+            type: "line" as const,
+            data: grid.map((x, i) => [x, densities[i]]),
+            areaStyle: {
+              color,
+              opacity: keys.length > 1 ? 0.25 : 0.6,
+            },
+            lineStyle: {
+              color,
+            },
+            itemStyle: {
+              color,
+            },
+            showSymbol: false,
+            smooth: true,
+          };
+        }
+      );
 
       return {
         animation: true,
         animationDuration: 1000,
+        animationEasing: "cubicOut",
         tooltip: {
           trigger: "axis",
-          axisPointer: {
-            type: "cross",
-          },
+          valueFormatter: (value) =>
+            typeof value === "number" ? value.toPrecision(3) : String(value),
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -1625,6 +2506,13 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
             color: "#fff",
           },
         },
+        legend: {
+          data: keys,
+          top: "top",
+          textStyle: {
+            fontSize: 12,
+          },
+        },
         grid: {
           left: "3%",
           right: "4%",
@@ -1633,13 +2521,14 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           containLabel: true,
         },
         xAxis: {
-          type: "category",
-          data: config.data.map((item) => String(item[config.nameKey] || "")),
-          scale: true,
-          boundaryGap: false,
+          type: "value",
+          name: keys.length === 1 ? config.valueKey : undefined,
+          nameLocation: "middle",
+          nameGap: 30,
+          min: grid[0],
+          max: grid[grid.length - 1],
           axisLabel: {
-            rotate: config.data.length > 10 ? 45 : 0,
-            interval: 0,
+            formatter: (value: number) => formatBinEdge(value),
           },
           axisLine: {
             lineStyle: {
@@ -1648,10 +2537,8 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         yAxis: {
-          scale: true,
-          splitArea: {
-            show: true,
-          },
+          type: "value",
+          name: "Density",
           axisLine: {
             lineStyle: {
               color: "#666",
@@ -1664,36 +2551,229 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
             },
           },
         },
-        series: [
-          {
-            name: "Candlestick",
-            type: "candlestick",
-            data: config.data.map((item) => {
-              const openVal = item[ohlcKeys[0]];
-              const closeVal = item[ohlcKeys[1]];
-              const lowVal = item[ohlcKeys[2]];
-              const highVal = item[ohlcKeys[3]];
-              const open = typeof openVal === "number" ? openVal : 0;
-              const close = typeof closeVal === "number" ? closeVal : 0;
-              const low =
-                typeof lowVal === "number" ? lowVal : Math.min(open, close);
-              const high =
-                typeof highVal === "number" ? highVal : Math.max(open, close);
-              return [open, close, low, high] as [
-                number,
-                number,
-                number,
-                number
-              ];
-            }),
+        series,
+      };
+    },
+  },
+
+  // Candlestick Chart (Financial)
+  candlestick: {
+    chartType: "candlestick",
+    echartsType: "candlestick",
+    keywords: ["candlestick", "candle", "ohlc"],
+    // "bar chart of stock levels per warehouse" stays a bar chart
+    fallbackKeywords: ["financial", "stock", "trading"],
+    validate: (config) => {
+      const { missing } = detectOhlcKeys(config.data);
+      if (missing.length === 0) return null;
+      return `Candlestick charts need open, high, low and close columns. Missing: ${missing.join(
+        ", "
+      )}.`;
+    },
+    generateOption: (config) => {
+      // Candlestick requires [open, close, low, high] format
+      const { keys: ohlc } = detectOhlcKeys(config.data);
+      const read = (key?: string) =>
+        key ? seriesValues(config, key) : [];
+      const opens = read(ohlc.open);
+      const closes = read(ohlc.close);
+      const lows = read(ohlc.low);
+      const highs = read(ohlc.high);
+      const volumes = read(ohlc.volume);
+      const hasVolume = Boolean(ohlc.volume);
+
+      const upColor = config.colors[0];
+      const downColor = config.colors[1] || config.colors[0];
+      const categories = config.data.map((item) =>
+        String(item[config.nameKey] || "")
+      );
+      const candles = config.data.map((_, idx) => {
+        const values = [opens[idx], closes[idx], lows[idx], highs[idx]];
+        // "-" marks an empty candle in ECharts
+        return values.some((val) => val === null)
+          ? ["-", "-", "-", "-"]
+          : (values as number[]);
+      });
+
+      const series: echarts.SeriesOption[] = [
+        {
+          name: "Candlestick",
+          type: "candlestick",
+          data: candles,
+          itemStyle: {
+            color: upColor,
+            color0: downColor,
+            borderColor: upColor,
+            borderColor0: downColor,
+          },
+        },
+      ];
+
+      (config.movingAverages || []).forEach((window, idx) => {
+        series.push({
+          name: `MA${window}`,
+          type: "line",
+          data: movingAverage(closes, window),
+          smooth: true,
+          showSymbol: false,
+          lineStyle: {
+            width: 1.5,
+            color: config.colors[(idx + 2) % config.colors.length],
+          },
+          itemStyle: {
+            color: config.colors[(idx + 2) % config.colors.length],
+          },
+        });
+      });
+
+      if (hasVolume) {
+        series.push({
+          name: "Volume",
+          type: "bar",
+          xAxisIndex: 1,
+          yAxisIndex: 1,
+          data: volumes.map((volume, idx) => ({
+            value: volume,
             itemStyle: {
-              color: config.colors[0],
-              color0: config.colors[1] || config.colors[0],
-              borderColor: config.colors[0],
-              borderColor0: config.colors[1] || config.colors[0],
+              color:
+                (closes[idx] ?? 0) >= (opens[idx] ?? 0) ? upColor : downColor,
+              opacity: 0.6,
             },
+          })),
+        });
+      }
+
+      const axisStyle = {
+        axisLine: {
+          lineStyle: {
+            color: "#666",
+          },
+        },
+      };
+
+      return {
+        animation: true,
+        animationDuration: 1000,
+        tooltip: {
+          trigger: "axis",
+          axisPointer: {
+            type: "cross",
+          },
+          valueFormatter: formatMissingValue,
+          backgroundColor: "rgba(50, 50, 50, 0.9)",
+          borderColor: "#777",
+          borderWidth: 1,
+          textStyle: {
+            color: "#fff",
           },
+        },
+        axisPointer: {
+          link: [{ xAxisIndex: "all" }],
+        },
+        legend: {
+          data: [
+            "Candlestick",
+            ...(config.movingAverages || []).map((window) => `MA${window}`),
+          ],
+          top: "top",
+          textStyle: {
+            fontSize: 12,
+          },
+        },
+        grid: [
+          {
+            left: "3%",
+            right: "4%",
+            top: "10%",
+            height: hasVolume ? "50%" : "65%",
+            containLabel: true,
+          },
+          ...(hasVolume
+            ? [
+                {
+                  left: "3%",
+                  right: "4%",
+                  top: "66%",
+                  height: "14%",
+                  containLabel: true,
+                },
+              ]
+            : []),
         ],
+        xAxis: [
+          {
+            type: "category",
+            data: categories,
+            scale: true,
+            boundaryGap: true,
+            axisLabel: {
+              show: !hasVolume,
+              rotate: config.data.length > 10 ? 45 : 0,
+            },
+            ...axisStyle,
+          },
+          ...(hasVolume
+            ? [
+                {
+                  type: "category" as const,
+                  gridIndex: 1,
+                  data: categories,
+                  boundaryGap: true,
+                  axisLabel: {
+                    rotate: config.data.length > 10 ? 45 : 0,
+                  },
+                  ...axisStyle,
+                },
+              ]
+            : []),
+        ],
+        yAxis: [
+          {
+            scale: true,
+            splitArea: {
+              show: true,
+            },
+            ...axisStyle,
+            splitLine: {
+              lineStyle: {
+                type: "dashed",
+                color: "#e0e0e0",
+              },
+            },
+          },
+          ...(hasVolume
+            ? [
+                {
+                  scale: true,
+                  gridIndex: 1,
+                  name: ohlc.volume,
+                  splitNumber: 2,
+                  axisLabel: {
+                    formatter: (value: number) =>
+                      Intl.NumberFormat("en", {
+                        notation: "compact",
+                      }).format(value),
+                  },
+                  ...axisStyle,
+                  splitLine: {
+                    show: false,
+                  },
+                },
+              ]
+            : []),
+        ],
+        dataZoom: [
+          {
+            type: "inside",
+            xAxisIndex: hasVolume ? [0, 1] : [0],
+          },
+          {
+            type: "slider",
+            xAxisIndex: hasVolume ? [0, 1] : [0],
+            bottom: "2%",
+          },
+        ],
+        series,
       };
     },
   },
@@ -1767,43 +2847,84 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       "graph diagram",
     ],
     generateOption: (config) => {
-      const nodes: Array<{ name: string; value?: number; category?: number }> =
-        [];
-      const links: Array<{ source: string; target: string; value?: number }> =
-        [];
-      const categories: Array<{ name: string }> = [{ name: "Default" }];
-
-      config.data.forEach((item, idx) => {
-        const nodeName = String(item[config.nameKey] || `Node${idx}`);
-        const nodeValue =
-          typeof item[config.valueKey] === "number" ? item[config.valueKey] : 0;
-
-        if (!nodes.find((n) => n.name === nodeName)) {
-          nodes.push({
-            name: nodeName,
-            value: typeof nodeValue === "number" ? nodeValue : 0,
-            category: 0,
-          });
-        }
+      const options = config.network || DEFAULT_NETWORK_OPTIONS;
+      const network = buildNetwork(
+        config.data,
+        config.nameKey,
+        config.valueKey,
+        options
+      );
 
-        // Create links between consecutive items
-        if (idx < config.data.length - 1) {
-          const targetName = String(
-            config.data[idx + 1][config.nameKey] || `Node${idx + 1}`
-          );
-          links.push({
-            source: nodeName,
-            target: targetName,
-            value: typeof nodeValue === "number" ? nodeValue : 0,
-          });
-        }
+      // Size nodes by degree (or by value for a plain node table)
+      const sizeBasis = network.nodes.map((node) =>
+        network.edges.length > 0 ? node.degree : Math.abs(node.value)
+      );
+      const maxBasis = Math.max(maxValue(sizeBasis), 1);
+      const hasCategories = network.categories.length > 0;
+      const categories = hasCategories
+        ? network.categories.map((name, idx) => ({
+            name,
+            itemStyle: {
+              color: seriesColor(config, name, idx),
+            },
+          }))
+        : [
+            {
+              name: "Default",
+              itemStyle: {
+                color: config.colors[0],
+              },
+            },
+          ];
+
+      // "none" layout needs coordinates; place unpositioned nodes on a circle
+      const fixedLayout = options.layout === "none";
+      const nodes = network.nodes.map((node, idx) => {
+        const angle = (2 * Math.PI * idx) / Math.max(network.nodes.length, 1);
+        return {
+          id: node.id,
+          name: node.name,
+          value: node.value,
+          degree: node.degree,
+          category: !hasCategories
+            ? 0
+            : node.category !== undefined
+            ? network.categories.indexOf(node.category)
+            : undefined,
+          symbolSize: 10 + (30 * sizeBasis[idx]) / maxBasis,
+          ...(fixedLayout && {
+            x: node.x ?? Math.cos(angle) * 100,
+            y: node.y ?? Math.sin(angle) * 100,
+          }),
+        };
       });
+      const maxWeight = Math.max(
+        maxValue(network.edges.map((edge) => edge.value)),
+        1
+      );
 
       return {
         animation: true,
         animationDuration: 1000,
         tooltip: {
           trigger: "item",
+          formatter: (
+            params: echarts.TooltipComponentFormatterCallbackParams
+          ) => {
+            const p = Array.isArray(params) ? params[0] : params;
+            if (p.dataType === "edge") {
+              const edge = p.data as NetworkEdge;
+              return `${edge.source} → ${edge.target}: ${edge.value}`;
+            }
+            const node = p.data as {
+              name: string;
+              degree: number;
+              value: number;
+            };
+            return `${node.name}<br/>Degree: ${node.degree}<br/>${
+              network.edges.length > 0 ? "Weight" : config.valueKey
+            }: ${node.value}`;
+          },
           backgroundColor: "rgba(50, 50, 50, 0.9)",
           borderColor: "#777",
           borderWidth: 1,
@@ -1812,6 +2933,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         legend: {
+          show: hasCategories,
           data: categories.map((c) => c.name),
           top: "top",
           textStyle: {
@@ -1821,23 +2943,31 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
         series: [
           {
             type: "graph",
-            layout: "force",
-            symbolSize: (data: GraphNodeData) => {
-              const val = typeof data.value === "number" ? data.value : 10;
-              return Math.max(10, Math.min(50, val / 10));
-            },
+            layout: options.layout,
             roam: true,
             label: {
               show: true,
               position: "right",
             },
             edgeLabel: {
-              show: true,
+              show: network.edges.length <= 30,
               formatter: "{c}",
             },
             data: nodes,
-            links,
+            links: network.edges.map((edge) => ({
+              ...edge,
+              lineStyle: {
+                width: 1 + (4 * edge.value) / maxWeight,
+              },
+            })),
             categories,
+            force: {
+              repulsion: 200,
+              edgeLength: [50, 150],
+            },
+            circular: {
+              rotateLabel: true,
+            },
             lineStyle: {
               color: "source",
               curveness: 0.3,
@@ -1880,6 +3010,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       return {
         animation: true,
         animationDuration: 1000,
+        color: keys.map((key, idx) => seriesColor(config, key, idx)),
         tooltip: {
           trigger: "axis",
           axisPointer: {
@@ -1946,20 +3077,13 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       const series = keys.map((key, idx) => ({
         name: key,
         type: "effectScatter" as const,
-        data: config.data.map((item) => {
-          const xVal = item[config.nameKey];
-          const yVal = item[key];
-          return [
-            typeof xVal === "number" ? xVal : 0,
-            typeof yVal === "number" ? yVal : 0,
-          ];
-        }),
+        data: resolveScatterPoints(config, key),
         rippleEffect: {
           brushType: "stroke" as const,
           scale: 2.5,
         },
         itemStyle: {
-          color: config.colors[idx % config.colors.length],
+          color: seriesColor(config, key, idx),
         },
       }));
 
@@ -1990,7 +3114,7 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           containLabel: true,
         },
         xAxis: {
-          type: "value",
+          type: config.timeAxis ? "time" : "value",
           axisLine: {
             lineStyle: {
               color: "#666",
@@ -2109,46 +3233,8 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
       "tree diagram",
     ],
     generateOption: (config) => {
-      // Build tree structure from flat data
-      interface TreeNode {
-        name: string;
-        value: number;
-        children: TreeNode[];
-      }
-
-      const buildTree = (items: ChartDataPoint[]): TreeNode | null => {
-        if (items.length === 0) return null;
-
-        const val0 = items[0][config.valueKey];
-        const root: TreeNode = {
-          name: String(items[0][config.nameKey] || "Root"),
-          value:
-            typeof val0 === "number"
-              ? val0
-              : typeof val0 === "string"
-              ? parseFloat(val0) || 0
-              : 0,
-          children: [],
-        };
-
-        items.slice(1).forEach((item) => {
-          const val = item[config.valueKey];
-          root.children.push({
-            name: String(item[config.nameKey] || `Node${items.indexOf(item)}`),
-            value:
-              typeof val === "number"
-                ? val
-                : typeof val === "string"
-                ? parseFloat(val) || 0
-                : 0,
-            children: [],
-          });
-        });
-
-        return root;
-      };
-
-      const treeData = buildTree(config.data);
+      const { roots } = buildHierarchy(config.data, config);
+      const treeData = toSingleRoot(roots, "All");
       if (!treeData) {
         return {
           tooltip: { trigger: "item" },
@@ -2253,14 +3339,14 @@ export const ECHARTS_TYPE_CONFIGS: Record<string, EChartsConfig> = {
           },
         },
         visualMap: {
-          min: Math.min(...calendarData.map((d) => d[1] as number)),
-          max: Math.max(...calendarData.map((d) => d[1] as number)),
+          min: minValue(calendarData.map((d) => d[1] as number)),
+          max: maxValue(calendarData.map((d) => d[1] as number)),
           calculable: true,
           orient: "horizontal",
           left: "center",
           top: "top",
           inRange: {
-            color: config.colors,
+            color: getScaleColors(config.palette, false),
           },
         },
         calendar: {
@@ -2315,14 +3401,23 @@ export const detectEChartsType = (prompt: string): string => {
     return bMaxKeyword - aMaxKeyword;
   });
 
+  const mentions = (keyword: string) =>
+    new RegExp(`\\b${keyword.replace(/\s+/g, "\\s+")}\\b`, "i").test(
+      promptLower
+    );
+
   for (const [chartType, config] of sortedConfigs) {
     for (const keyword of config.keywords) {
-      const regex = new RegExp(`\\b${keyword.replace(/\s+/g, "\\s+")}\\b`, "i");
-      if (regex.test(promptLower)) {
+      if (mentions(keyword)) {
         return chartType;
       }
     }
   }
+  for (const [chartType, config] of sortedConfigs) {
+    if (config.fallbackKeywords?.some(mentions)) {
+      return chartType;
+    }
+  }
 
   return "bar"; // Default
 };
@@ -0,0 +1,677 @@
+// Computed fields: a small, safe expression language evaluated per row.
+// Arithmetic, comparisons, and/or/not, string concatenation with "+", and a
+// fixed set of functions. Parsed into a tree and interpreted - never eval'd.
+import type { FlattenedDataPoint } from "../types";
+import {
+  DEFAULT_TEMPORAL_FORMAT,
+  parseDateValue,
+  type TemporalFormat,
+} from "./dates";
+import { toFiniteNumber } from "./statistics";
+
+export interface ComputedField {
+  name: string;
+  expression: string; // e.g. "round(solved / total * 100, 1)"
+}
+
+export type ExpressionValue = number | string | boolean | null;
+
+type ExpressionNode =
+  | { type: "literal"; value: ExpressionValue }
+  | { type: "field"; name: string }
+  | { type: "unary"; operator: "-" | "not"; operand: ExpressionNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | { type: "call"; name: string; args: ExpressionNode[] };
+
+interface Token {
+  kind: "number" | "string" | "name" | "operator" | "punctuation";
+  text: string;
+  position: number;
+  quoted?: boolean; // A `backticked` field name, never a keyword
+}
+
+export interface CompiledExpression {
+  fields: string[]; // Data fields the expression reads
+  evaluate: (row: FlattenedDataPoint) => ExpressionValue;
+}
+
+// How a field's values are read as dates, for the date-part functions
+export type TemporalLookup = (key: string) => TemporalFormat | undefined;
+
+const OPERATORS = [
+  "<=",
+  ">=",
+  "!=",
+  "<>",
+  "==",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "<",
+  ">",
+  "=",
+  "!",
+];
+const KEYWORD_OPERATORS: Record<string, string> = {
+  and: "&&",
+  or: "||",
+  not: "!",
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const position = i;
+    const numberMatch = source
+      .slice(i)
+      .match(/^(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/i);
+    if (numberMatch) {
+      tokens.push({ kind: "number", text: numberMatch[0], position });
+      i += numberMatch[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === "`") {
+      // Quoted strings; backticks quote field names with spaces or symbols
+      const end = source.indexOf(char, i + 1);
+      if (end < 0) {
+        throw new Error(`Unclosed ${char} at position ${position + 1}`);
+      }
+      tokens.push({
+        kind: char === "`" ? "name" : "string",
+        text: source.slice(i + 1, end),
+        position,
+        ...(char === "`" && { quoted: true }),
+      });
+      i = end + 1;
+      continue;
+    }
+    const nameMatch = source.slice(i).match(/^[A-Za-z_][\w.]*/);
+    if (nameMatch) {
+      const keyword = KEYWORD_OPERATORS[nameMatch[0].toLowerCase()];
+      tokens.push(
+        keyword
+          ? { kind: "operator", text: keyword, position }
+          : { kind: "name", text: nameMatch[0], position }
+      );
+      i += nameMatch[0].length;
+      continue;
+    }
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: "operator", text: operator, position });
+      i += operator.length;
+      continue;
+    }
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ kind: "punctuation", text: char, position });
+      i++;
+      continue;
+    }
+    throw new Error(`Unexpected "${char}" at position ${position + 1}`);
+  }
+  return tokens;
+};
+
+// Function name -> [min args, max args]
+const FUNCTION_ARITY: Record<string, [number, number]> = {
+  round: [1, 2],
+  abs: [1, 1],
+  floor: [1, 1],
+  ceil: [1, 1],
+  min: [1, Infinity],
+  max: [1, Infinity],
+  if: [3, 3],
+  coalesce: [1, Infinity],
+  concat: [1, Infinity],
+  lower: [1, 1],
+  upper: [1, 1],
+  year: [1, 1],
+  quarter: [1, 1],
+  month: [1, 1],
+  day: [1, 1],
+  weekday: [1, 1],
+  hour: [1, 1],
+};
+
+// Precedence climbing, loosest first
+const BINARY_LEVELS = [
+  ["||"],
+  ["&&"],
+  ["=", "==", "!=", "<>", "<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const parse = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) =>
+    token
+      ? `"${token.text}" at position ${token.position + 1}`
+      : "end of expression";
+  const expect = (text: string) => {
+    const token = peek();
+    if (!token || token.text !== text || token.kind === "string") {
+      throw new Error(`Expected "${text}" but found ${describe(token)}`);
+    }
+    index++;
+  };
+
+  const parseLevel = (level: number): ExpressionNode => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    for (;;) {
+      const token = peek();
+      if (
+        !token ||
+        token.kind !== "operator" ||
+        !BINARY_LEVELS[level].includes(token.text)
+      ) {
+        return left;
+      }
+      index++;
+      left = {
+        type: "binary",
+        operator: token.text,
+        left,
+        right: parseLevel(level + 1),
+      };
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (token?.kind === "operator" && token.text === "-") {
+      index++;
+      return { type: "unary", operator: "-", operand: parseUnary() };
+    }
+    if (token?.kind === "operator" && token.text === "!") {
+      index++;
+      return { type: "unary", operator: "not", operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (!token) throw new Error("Expression ended unexpectedly");
+    index++;
+    if (token.kind === "number") {
+      return { type: "literal", value: parseFloat(token.text) };
+    }
+    if (token.kind === "string") {
+      return { type: "literal", value: token.text };
+    }
+    if (token.kind === "punctuation" && token.text === "(") {
+      const inner = parseLevel(0);
+      expect(")");
+      return inner;
+    }
+    if (token.kind === "name") {
+      if (token.quoted) return { type: "field", name: token.text };
+      const lower = token.text.toLowerCase();
+      if (lower === "true" || lower === "false") {
+        return { type: "literal", value: lower === "true" };
+      }
+      if (lower === "null") return { type: "literal", value: null };
+      if (peek()?.kind === "punctuation" && peek()?.text === "(") {
+        index++;
+        const arity = FUNCTION_ARITY[lower];
+        if (!arity) throw new Error(`Unknown function ${token.text}()`);
+        const args: ExpressionNode[] = [];
+        if (peek()?.text !== ")") {
+          args.push(parseLevel(0));
+          while (peek()?.text === ",") {
+            index++;
+            args.push(parseLevel(0));
+          }
+        }
+        expect(")");
+        if (args.length < arity[0] || args.length > arity[1]) {
+          const range =
+            arity[0] === arity[1]
+              ? `${arity[0]}`
+              : arity[1] === Infinity
+              ? `at least ${arity[0]}`
+              : `${arity[0]} to ${arity[1]}`;
+          throw new Error(`${lower}() takes ${range} argument(s)`);
+        }
+        return { type: "call", name: lower, args };
+      }
+      return { type: "field", name: token.text };
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  if (tokens.length === 0) throw new Error("Expression is empty");
+  const node = parseLevel(0);
+  if (index < tokens.length) {
+    throw new Error(`Unexpected ${describe(tokens[index])}`);
+  }
+  return node;
+};
+
+const collectFields = (node: ExpressionNode, fields: Set<string>) => {
+  if (node.type === "field") fields.add(node.name);
+  else if (node.type === "unary") collectFields(node.operand, fields);
+  else if (node.type === "binary") {
+    collectFields(node.left, fields);
+    collectFields(node.right, fields);
+  } else if (node.type === "call") {
+    node.args.forEach((arg) => collectFields(arg, fields));
+  }
+};
+
+const toNumber = (value: ExpressionValue): number | null =>
+  typeof value === "boolean" ? (value ? 1 : 0) : toFiniteNumber(value);
+
+const isTruthy = (value: ExpressionValue) =>
+  value !== null && value !== false && value !== 0 && value !== "";
+
+const compare = (
+  operator: string,
+  left: ExpressionValue,
+  right: ExpressionValue
+): boolean => {
+  const leftNum = toNumber(left);
+  const rightNum = toNumber(right);
+  const numeric = leftNum !== null && rightNum !== null;
+  const a = numeric ? leftNum : left === null ? null : String(left);
+  const b = numeric ? rightNum : right === null ? null : String(right);
+  if (operator === "=" || operator === "==") return a === b;
+  if (operator === "!=" || operator === "<>") return a !== b;
+  if (a === null || b === null) return false;
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+};
+
+const arithmetic = (
+  operator: string,
+  left: ExpressionValue,
+  right: ExpressionValue
+): ExpressionValue => {
+  // "+" joins text when either side is text that isn't a number
+  if (
+    operator === "+" &&
+    ((typeof left === "string" && toNumber(left) === null) ||
+      (typeof right === "string" && toNumber(right) === null))
+  ) {
+    return `${left ?? ""}${right ?? ""}`;
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? null : a / b;
+    default:
+      return b === 0 ? null : a % b;
+  }
+};
+
+const DATE_PARTS = ["year", "quarter", "month", "day", "weekday", "hour"];
+
+const datePart = (name: string, time: number): number => {
+  const date = new Date(time);
+  switch (name) {
+    case "year":
+      return date.getFullYear();
+    case "quarter":
+      return Math.floor(date.getMonth() / 3) + 1;
+    case "month":
+      return date.getMonth() + 1;
+    case "day":
+      return date.getDate();
+    case "weekday":
+      return ((date.getDay() + 6) % 7) + 1; // ISO: Monday = 1
+    default:
+      return date.getHours();
+  }
+};
+
+const evaluateNode = (
+  node: ExpressionNode,
+  row: FlattenedDataPoint,
+  temporalFor: TemporalLookup
+): ExpressionValue => {
+  const evaluate = (child: ExpressionNode) =>
+    evaluateNode(child, row, temporalFor);
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "field": {
+      const value = row[node.name];
+      return typeof value === "number" ||
+        typeof value === "string" ||
+        typeof value === "boolean"
+        ? value
+        : null;
+    }
+    case "unary": {
+      const operand = evaluate(node.operand);
+      if (node.operator === "not") return !isTruthy(operand);
+      const num = toNumber(operand);
+      return num === null ? null : -num;
+    }
+    case "binary": {
+      if (node.operator === "&&") {
+        return isTruthy(evaluate(node.left)) && isTruthy(evaluate(node.right));
+      }
+      if (node.operator === "||") {
+        return isTruthy(evaluate(node.left)) || isTruthy(evaluate(node.right));
+      }
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      return ["+", "-", "*", "/", "%"].includes(node.operator)
+        ? arithmetic(node.operator, left, right)
+        : compare(node.operator, left, right);
+    }
+    case "call": {
+      const { name, args } = node;
+      if (name === "if") {
+        return isTruthy(evaluate(args[0]))
+          ? evaluate(args[1])
+          : evaluate(args[2]);
+      }
+      if (name === "coalesce") {
+        for (const arg of args) {
+          const value = evaluate(arg);
+          if (value !== null && value !== "") return value;
+        }
+        return null;
+      }
+      if (name === "concat") {
+        return args.map((arg) => evaluate(arg) ?? "").join("");
+      }
+      if (name === "lower" || name === "upper") {
+        const value = evaluate(args[0]);
+        if (value === null) return null;
+        return name === "lower"
+          ? String(value).toLowerCase()
+          : String(value).toUpperCase();
+      }
+      if (DATE_PARTS.includes(name)) {
+        const [arg] = args;
+        const format =
+          (arg.type === "field" && temporalFor(arg.name)) ||
+          DEFAULT_TEMPORAL_FORMAT;
+        const time = parseDateValue(evaluate(arg), format);
+        return time === null ? null : datePart(name, time);
+      }
+      const numbers = args.map((arg) => toNumber(evaluate(arg)));
+      if (name === "min" || name === "max") {
+        const present = numbers.filter((num): num is number => num !== null);
+        if (present.length === 0) return null;
+        return name === "min" ? Math.min(...present) : Math.max(...present);
+      }
+      const [value, digits] = numbers;
+      if (value === null) return null;
+      switch (name) {
+        case "round": {
+          const factor = Math.pow(10, digits ?? 0);
+          return Math.round(value * factor) / factor;
+        }
+        case "abs":
+          return Math.abs(value);
+        case "floor":
+          return Math.floor(value);
+        default:
+          return Math.ceil(value);
+      }
+    }
+  }
+};
+
+// Parse an expression; throws with a user-facing message
+export const compileExpression = (
+  source: string,
+  temporalFor: TemporalLookup = () => undefined
+): CompiledExpression => {
+  const node = parse(source);
+  const fields = new Set<string>();
+  collectFields(node, fields);
+  return {
+    fields: Array.from(fields),
+    evaluate: (row) => {
+      const value = evaluateNode(node, row, temporalFor);
+      // Keep non-finite arithmetic out of the charts
+      return typeof value === "number" && !Number.isFinite(value)
+        ? null
+        : value;
+    },
+  };
+};
+
+// Check one field definition against the keys it may read; returns a
+// user-facing message, or null when the field can be applied
+export const validateComputedField = (
+  field: ComputedField,
+  availableKeys: string[]
+): string | null => {
+  const name = field.name.trim();
+  if (!name) return "Computed fields need a name";
+  if (availableKeys.includes(name)) {
+    return `A field named ${name} already exists`;
+  }
+  let compiled: CompiledExpression;
+  try {
+    compiled = compileExpression(field.expression);
+  } catch (error) {
+    return `${name}: ${error instanceof Error ? error.message : error}`;
+  }
+  const missing = compiled.fields.filter((key) => !availableKeys.includes(key));
+  return missing.length > 0
+    ? `${name}: unknown field${missing.length > 1 ? "s" : ""} ${missing.join(
+        ", "
+      )}`
+    : null;
+};
+
+// Add each computed field to every row; later fields may use earlier ones
+export const applyComputedFields = (
+  rows: FlattenedDataPoint[],
+  fields: ComputedField[],
+  temporalFor?: TemporalLookup
+): FlattenedDataPoint[] => {
+  if (fields.length === 0) return rows;
+  const compiled = fields.map((field) => ({
+    name: field.name.trim(),
+    expression: compileExpression(field.expression, temporalFor),
+  }));
+  return rows.map((row) => {
+    const next: FlattenedDataPoint = { ...row };
+    compiled.forEach(({ name, expression }) => {
+      next[name] = expression.evaluate(next);
+    });
+    return next;
+  });
+};
+
+// Backtick-quote field names that aren't plain identifiers
+const quoteField = (key: string) =>
+  /^[A-Za-z_][\w.]*$/.test(key) && !KEYWORD_OPERATORS[key.toLowerCase()]
+    ? key
+    : `\`${key}\``;
+
+// "where margin = revenue - cost", "compute ratio as solved / total"
+const DEFINITION_PATTERN =
+  /\b(?:where|define|compute|computed|calculate|with)\s+([A-Za-z_][\w.]*)\s*(?:=|\bas\b)\s*(.+?)\s*(?:;|$)/i;
+
+// "revenue minus cost", "tickets divided by agents"
+const OPERATION_PATTERN =
+  /\b([\w.]+)\s+(minus|plus|times|multiplied by|divided by|over(?!\s+time\b)|per)\s+([\w.]+)/;
+// Operator and the word used in the field's name
+const OPERATION_SYMBOLS: Record<string, [string, string]> = {
+  minus: ["-", "minus"],
+  plus: ["+", "plus"],
+  times: ["*", "times"],
+  "multiplied by": ["*", "times"],
+  "divided by": ["/", "per"],
+  over: ["/", "per"],
+  per: ["/", "per"],
+};
+
+// "solve rate", "conversion percentage"
+const RATE_PATTERN = /\b([a-z]\w*?)[\s_]+(rate|ratio|percentage|share)\b/;
+// Key tokens that mark a rate's denominator, e.g. total_calls
+const TOTAL_TOKENS = ["total", "all", "count", "attempt", "attempts"];
+
+const keyTokens = (key: string) => key.toLowerCase().split(/[^a-z0-9]+/);
+
+const isTotalKey = (key: string) =>
+  keyTokens(key).some((token) => TOTAL_TOKENS.includes(token));
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// "revenue minus cost" over two numeric keys
+const operationField = (
+  promptLower: string,
+  allKeys: string[],
+  resolveKey: (word: string) => string | undefined
+): ComputedField | undefined => {
+  const operation = promptLower.match(OPERATION_PATTERN);
+  if (!operation) return undefined;
+  const left = resolveKey(operation[1]);
+  const right = resolveKey(operation[3]);
+  const [symbol, word] = OPERATION_SYMBOLS[operation[2]];
+  if (!left || !right || left === right) return undefined;
+  const name = `${left}_${word}_${right}`;
+  if (allKeys.includes(name)) return undefined;
+  return {
+    name,
+    expression: `${quoteField(left)} ${symbol} ${quoteField(right)}`,
+  };
+};
+
+// The longest leading run of `text` that compiles and only reads known keys,
+// so trailing prompt words after a definition are ignored
+const longestValidExpression = (
+  text: string,
+  availableKeys: string[]
+): string | undefined => {
+  const words = text.split(/\s+/);
+  for (let count = words.length; count > 0; count--) {
+    const expression = words.slice(0, count).join(" ");
+    if (
+      validateComputedField({ name: "_", expression }, availableKeys) === null
+    ) {
+      return expression;
+    }
+  }
+  return undefined;
+};
+
+// Computed fields a prompt asks for: explicit definitions, "revenue minus
+// cost" over two numeric keys, or "solve rate" when a matching count and a
+// total of the same thing exist. `resolveKey` maps a prompt word to a
+// numeric key.
+export const inferComputedFields = (
+  prompt: string,
+  numericKeys: string[],
+  allKeys: string[],
+  resolveKey: (word: string) => string | undefined
+): ComputedField[] => {
+  const definition = prompt.match(DEFINITION_PATTERN);
+  if (definition && !allKeys.includes(definition[1])) {
+    const expression = longestValidExpression(definition[2], allKeys);
+    if (expression) return [{ name: definition[1], expression }];
+  }
+
+  const promptLower = prompt.toLowerCase();
+  const operation = operationField(promptLower, allKeys, resolveKey);
+  if (operation) return [operation];
+
+  const rate = promptLower.match(RATE_PATTERN);
+  if (rate && rate[1].length >= 3) {
+    const [, stem, kind] = rate;
+    const name = `${stem}_${kind}`;
+    const normalize = (key: string) =>
+      key.toLowerCase().replace(/[^a-z0-9]/g, "");
+    // The data may already carry the rate
+    if (allKeys.some((key) => normalize(key).includes(normalize(name)))) {
+      return [];
+    }
+    const numerator = numericKeys.find(
+      (key) =>
+        keyTokens(key).some((token) => token.startsWith(stem)) &&
+        !isTotalKey(key)
+    );
+    if (numerator) {
+      // The total must count the same thing: solved_calls / total_calls
+      const shared = keyTokens(numerator).filter(
+        (token) => token.length >= 3 && !token.startsWith(stem)
+      );
+      const denominator = numericKeys.find(
+        (key) =>
+          key !== numerator &&
+          isTotalKey(key) &&
+          keyTokens(key).some((token) => shared.includes(token))
+      );
+      if (denominator) {
+        const ratio = `${quoteField(numerator)} / ${quoteField(denominator)}`;
+        return [
+          {
+            name,
+            expression: kind === "percentage" ? `${ratio} * 100` : ratio,
+          },
+        ];
+      }
+    }
+  }
+  return [];
+};
+
+// Whether a prompt names `field`, by its name ("plot solve rate") or by the
+// operation it was inferred from ("revenue minus cost"), so it should be the
+// plotted measure
+export const promptNamesField = (
+  prompt: string,
+  field: ComputedField,
+  allKeys: string[],
+  resolveKey: (word: string) => string | undefined
+): boolean => {
+  const promptLower = prompt.toLowerCase();
+  const words = field.name
+    .toLowerCase()
+    .split(/[\s_.]+/)
+    .filter(Boolean)
+    .map(escapeRegExp);
+  if (new RegExp(`\\b${words.join("[\\s_.]+")}\\b`).test(promptLower)) {
+    return true;
+  }
+  return (
+    operationField(promptLower, allKeys, resolveKey)?.expression ===
+    field.expression
+  );
+};
@@ -0,0 +1,491 @@
+// Row filters: "only agents with more than 5 interactions", "exclude Name
+// Here", "from March to June", or conditions built in the header
+import type { FlattenedDataPoint } from "../types";
+import { monthOfName, parseDateValue, type TemporalFormat } from "./dates";
+import { toFiniteNumber } from "./statistics";
+
+export type FilterOperator =
+  | "in"
+  | "notIn"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between";
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  "in",
+  "notIn",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "between",
+];
+
+export interface DataFilter {
+  key: string;
+  operator: FilterOperator;
+  // The compared value; every label for in/notIn; [from, to] for between.
+  // Bounds on date fields are date text such as "2024-03" or "March".
+  values: Array<string | number>;
+}
+
+// What the prompt parser needs to know about the data
+export interface FilterContext {
+  rows: FlattenedDataPoint[];
+  numericKeys: string[];
+  labelKeys: string[]; // Category columns, preferred first
+  timeKey?: string; // Date column that "from March to June" applies to
+  temporalFor: (key: string) => TemporalFormat | undefined;
+  resolveKey: (word: string, keys: string[]) => string | undefined;
+}
+
+export const FILTER_SYMBOLS: Record<FilterOperator, string> = {
+  in: "=",
+  notIn: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  between: "–",
+};
+
+// Chip text, also used to tell filters apart
+export const describeFilter = (filter: DataFilter): string =>
+  filter.operator === "between"
+    ? `${filter.key} ${filter.values[0]}–${filter.values[1]}`
+    : `${filter.key} ${FILTER_SYMBOLS[filter.operator]} ${filter.values.join(
+        ", "
+      )}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2024-03", "03/2024", "June 2024"
+const MONTH_BOUND =
+  /^\d{4}[-/]\d{1,2}$|^\d{1,2}[-/.]\d{4}$|^[a-z]+\.?[\s'-]*\d{2,4}$/i;
+
+const NUMERIC_TEXT = /^-?\d[\d,]*(?:\.\d+)?$/;
+
+// Numbers and plain numeric text, but not "2024-03"
+const exactNumber = (value: unknown): number | null =>
+  typeof value === "string"
+    ? NUMERIC_TEXT.test(value.trim())
+      ? toFiniteNumber(value.replace(/,/g, ""))
+      : null
+    : toFiniteNumber(value);
+
+// Labels equal ignoring case; month names match by month ("Mar", "March")
+const labelMatches = (value: unknown, target: string | number): boolean => {
+  if (value === null || value === undefined || value === "") return false;
+  const valueNum = exactNumber(value);
+  const targetNum = exactNumber(target);
+  if (valueNum !== null && targetNum !== null) return valueNum === targetNum;
+  const label = String(value).trim().toLowerCase();
+  const text = String(target).trim().toLowerCase();
+  if (label === text) return true;
+  const month = monthOfName(text);
+  return month !== undefined && monthOfName(label) === month;
+};
+
+// Start or end (exclusive) of the period a date bound names, so "to June
+// 2024" takes in all of June; null when the text isn't a date
+const boundTime = (
+  value: string | number,
+  format: TemporalFormat,
+  edge: "start" | "end"
+): number | null => {
+  const text = String(value).trim();
+  if (/^\d{4}$/.test(text)) {
+    return new Date(+text + (edge === "end" ? 1 : 0), 0, 1).getTime();
+  }
+  const time = parseDateValue(text, format);
+  if (time === null || edge === "start") return time;
+  const date = new Date(time);
+  if (/q[1-4]/i.test(text)) {
+    return new Date(date.getFullYear(), date.getMonth() + 3, 1).getTime();
+  }
+  if (/w\d/i.test(text)) return time + 7 * DAY_MS;
+  if (MONTH_BOUND.test(text)) {
+    return new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime();
+  }
+  return /\d:\d{2}/.test(text)
+    ? time + 1
+    : new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate() + 1
+      ).getTime();
+};
+
+type RowTest = (row: FlattenedDataPoint, index: number) => boolean;
+
+const betweenTest = (
+  rows: FlattenedDataPoint[],
+  filter: DataFilter,
+  format: TemporalFormat | undefined
+): RowTest => {
+  const { key } = filter;
+  const [from, to] = filter.values;
+  const low = exactNumber(from);
+  const high = exactNumber(to);
+  if (!format && low !== null && high !== null) {
+    return (row) => {
+      const value = toFiniteNumber(row[key]);
+      return (
+        value !== null &&
+        value >= Math.min(low, high) &&
+        value <= Math.max(low, high)
+      );
+    };
+  }
+  if (format) {
+    // "March to June" on dates keeps those months of every year, wrapping
+    // for "November to February"
+    const fromMonth = monthOfName(String(from));
+    const toMonth = monthOfName(String(to));
+    if (fromMonth !== undefined && toMonth !== undefined) {
+      return (row) => {
+        const time = parseDateValue(row[key], format);
+        if (time === null) return false;
+        const month = new Date(time).getMonth();
+        return fromMonth <= toMonth
+          ? month >= fromMonth && month <= toMonth
+          : month >= fromMonth || month <= toMonth;
+      };
+    }
+    const start = boundTime(from, format, "start");
+    const end = boundTime(to, format, "end");
+    if (start !== null && end !== null) {
+      return (row) => {
+        const time = parseDateValue(row[key], format);
+        return time !== null && time >= start && time < end;
+      };
+    }
+  }
+  // Otherwise a run of labels in row order, e.g. "Mar" through "Jun"
+  const first = rows.findIndex((row) => labelMatches(row[key], from));
+  let last = -1;
+  rows.forEach((row, index) => {
+    if (labelMatches(row[key], to)) last = index;
+  });
+  return (_row, index) => first >= 0 && index >= first && index <= last;
+};
+
+const comparisonTest = (
+  filter: DataFilter,
+  format: TemporalFormat | undefined
+): RowTest => {
+  const { key, operator } = filter;
+  const [target] = filter.values;
+  // Dates compare as timestamps, everything else as numbers
+  const read = (value: unknown) =>
+    format ? parseDateValue(value, format) : toFiniteNumber(value);
+  const edge = operator === "gt" || operator === "lte" ? "end" : "start";
+  const bound = format
+    ? boundTime(target, format, edge)
+    : toFiniteNumber(target);
+  return (row) => {
+    const value = read(row[key]);
+    if (value === null || bound === null) return false;
+    switch (operator) {
+      case "gt":
+        // After a period means after all of it
+        return format ? value >= bound : value > bound;
+      case "gte":
+        return value >= bound;
+      case "lt":
+        return value < bound;
+      default:
+        return format ? value < bound : value <= bound;
+    }
+  };
+};
+
+// Keep the rows that pass every filter
+export const applyFilters = (
+  rows: FlattenedDataPoint[],
+  filters: DataFilter[],
+  temporalFor: (key: string) => TemporalFormat | undefined = () => undefined
+): FlattenedDataPoint[] => {
+  if (filters.length === 0) return rows;
+  const tests = filters.map((filter): RowTest => {
+    const format = temporalFor(filter.key);
+    switch (filter.operator) {
+      case "in":
+        return (row) =>
+          filter.values.some((value) => labelMatches(row[filter.key], value));
+      case "notIn":
+        return (row) =>
+          !filter.values.some((value) => labelMatches(row[filter.key], value));
+      case "between":
+        return betweenTest(rows, filter, format);
+      default:
+        return comparisonTest(filter, format);
+    }
+  });
+  return rows.filter((row, index) => tests.every((test) => test(row, index)));
+};
+
+const COMPARATOR =
+  "(no more than|no less than|more than|greater than|fewer than|less than|at least|at most|exactly|equal to|equals|exceeding|over|above|under|below|>=|<=|==|=|>|<)";
+const NUMBER = "(-?\\d[\\d,]*(?:\\.\\d+)?)";
+
+const COMPARATOR_OPERATORS: Record<string, FilterOperator> = {
+  "no more than": "lte",
+  "no less than": "gte",
+  "more than": "gt",
+  "greater than": "gt",
+  "fewer than": "lt",
+  "less than": "lt",
+  "at least": "gte",
+  "at most": "lte",
+  exactly: "in",
+  "equal to": "in",
+  equals: "in",
+  exceeding: "gt",
+  over: "gt",
+  above: "gt",
+  under: "lt",
+  below: "lt",
+  ">=": "gte",
+  "<=": "lte",
+  "==": "in",
+  "=": "in",
+  ">": "gt",
+  "<": "lt",
+};
+
+// "more than 5 interactions"
+const COMPARISON_BEFORE_KEY = new RegExp(
+  `\\b${COMPARATOR}\\s*${NUMBER}\\s*%?\\s+([\\w.]+)`,
+  "gi"
+);
+// "kpi_score above 80", "score >= 90"
+const COMPARISON_AFTER_KEY = new RegExp(
+  `\\b([\\w.]+)\\s*(?:is\\s+|of\\s+)?${COMPARATOR}\\s*${NUMBER}`,
+  "gi"
+);
+// "revenue over 6 months" spans a period rather than comparing revenue
+const TIME_UNIT = /^\s*(?:hours?|days?|weeks?|months?|quarters?|years?)\b/i;
+const isPeriodSpan = (comparator: string, following: string) =>
+  comparator.toLowerCase() === "over" && TIME_UNIT.test(following);
+// "after March 2024", "before 2023"
+const DATE_COMPARISON = /\b(after|since|before|until)\s+([^,;]+)/gi;
+const DATE_OPERATORS: Record<string, FilterOperator> = {
+  after: "gt",
+  since: "gte",
+  before: "lt",
+  until: "lte",
+};
+// "from March to June", "between 2022 and 2023"
+const RANGES = [
+  /\bfrom\s+([^,;]+?)\s+(?:to|through|thru|until|till|-)\s+([^,;]+)/gi,
+  /\bbetween\s+([^,;]+?)\s+and\s+([^,;]+)/gi,
+];
+// "exclude Name Here", "only North and South"
+const EXCLUDE =
+  /\b(?:exclud(?:e|ing)|except(?:\s+for)?|without|not including|omit(?:ting)?|hid(?:e|ing)|remov(?:e|ing)|ignor(?:e|ing))\s+([^;]+)/gi;
+const ONLY = /\b(?:only|just)\s+(?:for\s+|include\s+|show\s+)?([^;]+)/gi;
+// Words that start another clause
+const CLAUSE_END =
+  /\b(?:only|just|exclud\w*|except|without|from|between|where|with|after|before|since|until)\b|[;.](?:\s|$)/i;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const clauseText = (text: string) => {
+  const end = text.search(CLAUSE_END);
+  return end >= 0 ? text.slice(0, end) : text;
+};
+
+// Category labels named in `text`, longest first so "New York City" wins
+// over "York"; one in/notIn filter per column
+const labelFilters = (
+  text: string,
+  operator: "in" | "notIn",
+  context: FilterContext
+): DataFilter[] => {
+  const candidates: Array<{ key: string; label: string }> = [];
+  context.labelKeys.forEach((key) => {
+    const labels = new Set<string>();
+    context.rows.forEach((row) => {
+      const value = row[key];
+      // Single characters only as standalone letters or digits ("A", "B")
+      if (typeof value === "string" && /^\w$|^.{2,}$/.test(value.trim())) {
+        labels.add(value.trim());
+      }
+    });
+    labels.forEach((label) => candidates.push({ key, label }));
+  });
+  candidates.sort((a, b) => b.label.length - a.label.length);
+
+  let remaining = text;
+  const byKey = new Map<string, string[]>();
+  candidates.forEach(({ key, label }) => {
+    // One-letter labels match case-sensitively, so "a" in prose doesn't
+    const pattern = new RegExp(
+      `(^|\\W)${escapeRegExp(label)}(?=\\W|$)`,
+      label.length === 1 ? "" : "i"
+    );
+    if (!pattern.test(remaining)) return;
+    remaining = remaining.replace(pattern, "$1");
+    byKey.set(key, [...(byKey.get(key) ?? []), label]);
+  });
+  return Array.from(byKey.entries()).map(([key, values]) => ({
+    key,
+    operator,
+    values,
+  }));
+};
+
+// The first one to three words of `text` that `accept` takes, longest first
+const leadingWords = (
+  text: string,
+  accept: (candidate: string) => boolean
+): string | undefined => {
+  const words = text.trim().split(/\s+/).slice(0, 3);
+  for (let count = words.length; count > 0; count--) {
+    const candidate = words.slice(0, count).join(" ");
+    if (accept(candidate)) return candidate;
+  }
+  return undefined;
+};
+
+// Filters asked for in a prompt
+export const parseFilters = (
+  prompt: string,
+  context: FilterContext
+): DataFilter[] => {
+  const filters: DataFilter[] = [];
+  const resolveNumeric = (word: string) =>
+    context.resolveKey(word, context.numericKeys);
+  const timeFormat = context.timeKey
+    ? context.temporalFor(context.timeKey)
+    : undefined;
+  const isDateBound = (text: string) =>
+    Boolean(timeFormat) &&
+    (monthOfName(text) !== undefined ||
+      boundTime(text, timeFormat as TemporalFormat, "start") !== null);
+  // Plain numbers are date bounds only as plausible years: "between 2022
+  // and 2023" bounds the dates, "between 100 and 500" a measure
+  const isRangeDateBound = (text: string) =>
+    exactNumber(text) === null
+      ? isDateBound(text)
+      : /^(?:19|20)\d{2}$/.test(text.trim()) && isDateBound(text);
+
+  // Numeric comparisons, with the measure after or before the number
+  for (const match of prompt.matchAll(COMPARISON_BEFORE_KEY)) {
+    if (isPeriodSpan(match[1], match[3])) continue;
+    const key = resolveNumeric(match[3]);
+    const value = exactNumber(match[2]);
+    if (key && value !== null) {
+      filters.push({
+        key,
+        operator: COMPARATOR_OPERATORS[match[1].toLowerCase()],
+        values: [value],
+      });
+    }
+  }
+  for (const match of prompt.matchAll(COMPARISON_AFTER_KEY)) {
+    const following = prompt.slice((match.index ?? 0) + match[0].length);
+    if (isPeriodSpan(match[2], following)) continue;
+    const key = resolveNumeric(match[1]);
+    const value = exactNumber(match[3]);
+    if (key && value !== null && !filters.some((f) => f.key === key)) {
+      filters.push({
+        key,
+        operator: COMPARATOR_OPERATORS[match[2].toLowerCase()],
+        values: [value],
+      });
+    }
+  }
+
+  // Ranges: dates on the time column, numbers on a measure, or a run of
+  // category labels
+  const matches = RANGES.flatMap((pattern) => [...prompt.matchAll(pattern)]);
+  for (const match of matches) {
+    const [, fromText, toText] = match;
+    if (context.timeKey && isRangeDateBound(fromText)) {
+      const bound = leadingWords(toText, isRangeDateBound);
+      if (bound) {
+        filters.push({
+          key: context.timeKey,
+          operator: "between",
+          values: [fromText.trim(), bound],
+        });
+        continue;
+      }
+    }
+    const low = exactNumber(fromText);
+    const highText = leadingWords(
+      toText,
+      (text) => exactNumber(text) !== null
+    );
+    if (low !== null && highText) {
+      const after = toText.trim().split(/\s+/)[1];
+      const before = prompt.slice(0, match.index).trim().split(/\s+/).pop();
+      const key =
+        (after && resolveNumeric(after)) || (before && resolveNumeric(before));
+      if (key) {
+        filters.push({
+          key,
+          operator: "between",
+          values: [low, exactNumber(highText) as number],
+        });
+        continue;
+      }
+    }
+    const labelKey = context.labelKeys.find((key) =>
+      context.rows.some((row) => labelMatches(row[key], fromText))
+    );
+    const bound =
+      labelKey &&
+      leadingWords(toText, (text) =>
+        context.rows.some((row) => labelMatches(row[labelKey], text))
+      );
+    if (labelKey && bound) {
+      filters.push({
+        key: labelKey,
+        operator: "between",
+        values: [fromText.trim(), bound],
+      });
+    }
+  }
+
+  // A date range already bounds the time column
+  const timeKey = context.timeKey;
+  if (timeKey && timeFormat && !filters.some((f) => f.key === timeKey)) {
+    for (const match of prompt.matchAll(DATE_COMPARISON)) {
+      const bound = leadingWords(
+        match[2],
+        (text) =>
+          boundTime(text, timeFormat, "start") !== null &&
+          monthOfName(text) === undefined
+      );
+      if (bound) {
+        filters.push({
+          key: timeKey,
+          operator: DATE_OPERATORS[match[1].toLowerCase()],
+          values: [bound],
+        });
+      }
+    }
+  }
+
+  for (const match of prompt.matchAll(EXCLUDE)) {
+    filters.push(...labelFilters(clauseText(match[1]), "notIn", context));
+  }
+  for (const match of prompt.matchAll(ONLY)) {
+    filters.push(...labelFilters(clauseText(match[1]), "in", context));
+  }
+
+  // The same condition worded twice counts once
+  const seen = new Set<string>();
+  return filters.filter((filter) => {
+    const label = describeFilter(filter);
+    if (seen.has(label)) return false;
+    seen.add(label);
+    return true;
+  });
+};
@@ -0,0 +1,93 @@
+// OHLC column detection and indicators for the candlestick builder
+import type { ChartDataPoint } from "../types";
+
+export interface OhlcKeys {
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume?: string;
+}
+
+export interface OhlcDetection {
+  keys: Partial<OhlcKeys>;
+  missing: Array<keyof Omit<OhlcKeys, "volume">>;
+}
+
+// Full names or single letters, optionally prefixed/suffixed ("price.open",
+// "open_price", "adj_close")
+const OHLC_PATTERNS: Record<keyof OhlcKeys, RegExp> = {
+  open: /(^|[._-])(open|o)($|[._-])/i,
+  high: /(^|[._-])(high|h)($|[._-])/i,
+  low: /(^|[._-])(low|l)($|[._-])/i,
+  close: /(^|[._-])(close|c|adj[._-]?close)($|[._-])/i,
+  volume: /(^|[._-])(volume|vol|v)($|[._-])/i,
+};
+
+const REQUIRED_OHLC: Array<keyof Omit<OhlcKeys, "volume">> = [
+  "open",
+  "high",
+  "low",
+  "close",
+];
+
+// Locate the OHLC (and optional volume) columns regardless of their order
+export const detectOhlcKeys = (data: ChartDataPoint[]): OhlcDetection => {
+  const keys = Array.from(new Set(data.flatMap((item) => Object.keys(item))));
+  const detected: Partial<OhlcKeys> = {};
+  const used = new Set<string>();
+
+  (Object.keys(OHLC_PATTERNS) as Array<keyof OhlcKeys>).forEach((field) => {
+    // Prefer an exact name over a prefixed/suffixed one
+    const candidates = keys.filter(
+      (key) => !used.has(key) && OHLC_PATTERNS[field].test(key)
+    );
+    const match =
+      candidates.find((key) => key.toLowerCase() === field) || candidates[0];
+    if (match) {
+      detected[field] = match;
+      used.add(match);
+    }
+  });
+
+  return {
+    keys: detected,
+    missing: REQUIRED_OHLC.filter((field) => !detected[field]),
+  };
+};
+
+// Simple moving average; the first window - 1 points have no value
+export const movingAverage = (
+  values: Array<number | null>,
+  window: number
+): Array<number | null> =>
+  values.map((_, idx) => {
+    if (idx < window - 1) return null;
+    const slice = values.slice(idx - window + 1, idx + 1);
+    if (slice.some((val) => val === null)) return null;
+    const sum = (slice as number[]).reduce((acc, val) => acc + val, 0);
+    return parseFloat((sum / window).toFixed(4));
+  });
+
+// Parse moving-average windows such as "MA5 and MA20" or "20-day moving average"
+export const parseMovingAverages = (prompt: string): number[] => {
+  const promptLower = prompt.toLowerCase();
+  const windows = new Set<number>();
+
+  for (const match of promptLower.matchAll(/\bma\s*[-_]?(\d+)\b/g)) {
+    windows.add(parseInt(match[1], 10));
+  }
+  for (const match of promptLower.matchAll(
+    /(\d+)[\s-]*(?:day|period|bar)?[\s-]*(?:moving average|sma)\b/g
+  )) {
+    windows.add(parseInt(match[1], 10));
+  }
+  if (windows.size === 0 && /moving average/.test(promptLower)) {
+    windows.add(5);
+    windows.add(20);
+  }
+
+  return Array.from(windows)
+    .filter((window) => window >= 2)
+    .sort((a, b) => a - b);
+};
@@ -0,0 +1,107 @@
+// Group-by aggregation: combine rows that share a category label, e.g.
+// "average quality_score by agent" or "count of tickets per region"
+import type { FlattenedDataPoint } from "../types";
+import {
+  aggregateValues,
+  parseAggregation,
+  toFiniteNumber,
+  type AggregationType,
+} from "./statistics";
+
+export interface GroupByRequest {
+  aggregation: AggregationType;
+  explicit: boolean; // The prompt named the aggregation rather than defaulting
+  groupWord?: string; // Word after "by"/"per", resolved to a category key
+  distinctWord?: string; // Field whose distinct values are counted
+}
+
+const AGGREGATION_WORDS =
+  /\b(sum|total|average|avg|mean|median|min|minimum|max|maximum|count|number of|how many|distinct|unique)\b/;
+
+// "by team" but not "colored by team" or "sorted by value"
+const GROUP_PATTERN =
+  /(?<!(?:colou?r(?:ed|s)?|sort(?:ed)?|order(?:ed)?)\s)\b(?:by|per|for each)\s+([\w.]+)/;
+
+const DISTINCT_PATTERN =
+  /\b(?:distinct|unique)\s+(?:count\s+of\s+)?([\w.]+)|\b(?:count|number)\s+of\s+(?:distinct|unique)\s+([\w.]+)/;
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+// Whether any label of `key` appears on more than one row
+export const hasRepeatedLabels = (
+  rows: FlattenedDataPoint[],
+  key: string
+): boolean => {
+  const seen = new Set<string>();
+  return rows.some((row) => {
+    const label = String(row[key] ?? "");
+    if (seen.has(label)) return true;
+    seen.add(label);
+    return false;
+  });
+};
+
+// One row per distinct `groupKey` label, in first-seen order, with each value
+// key aggregated. Count tallies rows; distinct counts different non-empty
+// values, so it also works on text fields.
+export const groupRows = (
+  rows: FlattenedDataPoint[],
+  groupKey: string,
+  valueKeys: string[],
+  aggregation: AggregationType
+): FlattenedDataPoint[] => {
+  const groups = new Map<string, FlattenedDataPoint[]>();
+  rows.forEach((row) => {
+    const label = String(row[groupKey] ?? "");
+    const groupRowsForLabel = groups.get(label);
+    if (groupRowsForLabel) groupRowsForLabel.push(row);
+    else groups.set(label, [row]);
+  });
+
+  return Array.from(groups.entries()).map(([label, members]) => {
+    const point: FlattenedDataPoint = { [groupKey]: members[0][groupKey] ?? label };
+    valueKeys.forEach((key) => {
+      if (aggregation === "count") {
+        point[key] = members.length;
+        return;
+      }
+      if (aggregation === "distinct") {
+        point[key] = new Set(
+          members
+            .map((row) => row[key])
+            .filter((value) => !isMissing(value))
+            .map((value) => String(value))
+        ).size;
+        return;
+      }
+      const values = members
+        .map((row) => toFiniteNumber(row[key]))
+        .filter((value): value is number => value !== null);
+      point[key] =
+        values.length > 0 ? aggregateValues(values, aggregation) : null;
+    });
+    return point;
+  });
+};
+
+// Aggregation and grouping asked for in a prompt; undefined when it names
+// neither. `isMeasure` tells numeric fields apart for parseAggregation.
+export const parseGroupBy = (
+  prompt: string,
+  isMeasure?: (word: string) => boolean
+): GroupByRequest | undefined => {
+  const promptLower = prompt.toLowerCase();
+  const groupMatch = promptLower.match(GROUP_PATTERN);
+  const explicit = AGGREGATION_WORDS.test(promptLower);
+  if (!groupMatch && !explicit) return undefined;
+  const distinctMatch = promptLower.match(DISTINCT_PATTERN);
+  return {
+    aggregation: parseAggregation(promptLower, "sum", isMeasure),
+    explicit,
+    ...(groupMatch && { groupWord: groupMatch[1] }),
+    ...(distinctMatch && {
+      distinctWord: distinctMatch[1] || distinctMatch[2],
+    }),
+  };
+};
@@ -0,0 +1,289 @@
+// Hierarchy inference shared by the tree, treemap and sunburst builders
+import type { ChartDataPoint, ChartNestedObject } from "../types";
+import { toFiniteNumber } from "./statistics";
+
+export interface HierarchyNode {
+  name: string;
+  value: number;
+  children?: HierarchyNode[];
+}
+
+export type HierarchySource =
+  | "nested" // rows carry `children` arrays
+  | "parent" // id / parentId columns
+  | "path" // delimited path strings such as "Sales/EMEA/UK"
+  | "levels" // several category columns, coarse to fine
+  | "flat"; // no structure found - every row is a leaf
+
+export interface HierarchyConfig {
+  nameKey: string;
+  valueKey: string;
+  levelKeys?: string[];
+}
+
+export interface HierarchyResult {
+  source: HierarchySource;
+  roots: HierarchyNode[];
+  // Nodes whose parent chain looped back on itself, shown as roots instead
+  cycleBreaks?: string[];
+}
+
+const CHILDREN_KEYS = ["children", "items", "nodes", "subcategories"];
+const PATH_DELIMITERS = [" > ", ">", "/", "|", "\\"];
+
+// Dates such as "01/2025" or "2024/03/01" also contain "/" but aren't paths
+const DATE_LIKE = /^\d{1,4}([/-]\d{1,4}){1,2}$/;
+
+const getChildrenKey = (item: ChartDataPoint | ChartNestedObject) =>
+  CHILDREN_KEYS.find((key) => {
+    const value = item[key];
+    return (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      typeof value[0] === "object" &&
+      value[0] !== null
+    );
+  });
+
+// True when any row nests its children, which flattening would break apart
+export const hasNestedChildren = (data: ChartDataPoint[]): boolean =>
+  data.some((item) => getChildrenKey(item) !== undefined);
+
+// Parents take the sum of their children; leaves keep their own value
+const rollUp = (node: HierarchyNode): number => {
+  if (node.children && node.children.length > 0) {
+    const childTotal = node.children.reduce(
+      (sum, child) => sum + rollUp(child),
+      0
+    );
+    node.value = childTotal > 0 ? childTotal : node.value;
+  }
+  return node.value;
+};
+
+const fromNested = (
+  items: Array<ChartDataPoint | ChartNestedObject>,
+  config: HierarchyConfig
+): HierarchyNode[] =>
+  items.map((item, idx) => {
+    const childrenKey = getChildrenKey(item);
+    const node: HierarchyNode = {
+      name: String(item[config.nameKey] ?? item.name ?? `Node${idx}`),
+      value: toFiniteNumber(item[config.valueKey] ?? item.value) ?? 0,
+    };
+    if (childrenKey) {
+      node.children = fromNested(
+        item[childrenKey] as ChartNestedObject[],
+        config
+      );
+    }
+    return node;
+  });
+
+// "parent_id"/"parentId" and "id"/"node_id"/"nodeId"; matched on separators
+// and camel case so "paid", "valid" or "parent_company_revenue" don't count
+const isParentKey = (key: string) =>
+  /(?:^|[_ .-])parent[_ .-]?id$/i.test(key) ||
+  /[a-z]Parent(?:Id|ID)$/.test(key);
+
+const isIdKey = (key: string) =>
+  /(?:^|[_ .-])id$/i.test(key) || /[a-z](?:Id|ID)$/.test(key);
+
+const findParentKeys = (
+  keys: string[]
+): { idKey: string; parentKey: string } | null => {
+  const parentKey = keys.find(isParentKey);
+  const idKey = keys.find((key) => !isParentKey(key) && isIdKey(key));
+  return parentKey && idKey ? { idKey, parentKey } : null;
+};
+
+const fromParentColumns = (
+  data: ChartDataPoint[],
+  config: HierarchyConfig,
+  idKey: string,
+  parentKey: string
+): { roots: HierarchyNode[]; cycleBreaks: string[] } => {
+  const nodes = new Map<string, HierarchyNode>();
+  const nameKey = config.nameKey !== idKey ? config.nameKey : undefined;
+
+  data.forEach((item, idx) => {
+    const id = String(item[idKey] ?? `Node${idx}`);
+    nodes.set(id, {
+      name: String((nameKey && item[nameKey]) ?? id),
+      value: toFiniteNumber(item[config.valueKey]) ?? 0,
+    });
+  });
+
+  const roots: HierarchyNode[] = [];
+  const parentOf = new Map<HierarchyNode, HierarchyNode>();
+  data.forEach((item, idx) => {
+    const id = String(item[idKey] ?? `Node${idx}`);
+    const parentId = item[parentKey];
+    const node = nodes.get(id)!;
+    const parent =
+      parentId !== null && parentId !== undefined && parentId !== ""
+        ? nodes.get(String(parentId))
+        : undefined;
+    // Orphans and self-references become roots rather than disappearing
+    if (parent && parent !== node) {
+      parent.children = parent.children || [];
+      parent.children.push(node);
+      parentOf.set(node, parent);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  // Nodes in a parent cycle (A under B under A) are unreachable from any
+  // root; cut the first one of each loop from its parent and make it a root
+  const reached = new Set<HierarchyNode>();
+  const visit = (node: HierarchyNode) => {
+    if (reached.has(node)) return;
+    reached.add(node);
+    node.children?.forEach(visit);
+  };
+  roots.forEach(visit);
+  const cycleBreaks: string[] = [];
+  nodes.forEach((node) => {
+    if (reached.has(node)) return;
+    const parent = parentOf.get(node);
+    if (parent?.children) {
+      parent.children = parent.children.filter((child) => child !== node);
+      if (parent.children.length === 0) delete parent.children;
+    }
+    roots.push(node);
+    cycleBreaks.push(node.name);
+    visit(node);
+  });
+  return { roots, cycleBreaks };
+};
+
+const findPathKey = (
+  data: ChartDataPoint[],
+  keys: string[]
+): { pathKey: string; delimiter: string } | null => {
+  for (const key of keys) {
+    const values = data
+      .map((item) => item[key])
+      .filter((value): value is string => typeof value === "string");
+    if (
+      values.length === 0 ||
+      values.some((value) => DATE_LIKE.test(value))
+    ) {
+      continue;
+    }
+    for (const delimiter of PATH_DELIMITERS) {
+      const withDelimiter = values.filter((value) =>
+        value.includes(delimiter)
+      );
+      if (
+        withDelimiter.length > 0 &&
+        withDelimiter.length >= values.length / 2
+      ) {
+        return { pathKey: key, delimiter };
+      }
+    }
+  }
+  return null;
+};
+
+// Insert one leaf per row below the chain of named segments
+const fromSegments = (
+  rows: Array<{ segments: string[]; value: number }>
+): HierarchyNode[] => {
+  const roots: HierarchyNode[] = [];
+  rows.forEach(({ segments, value }) => {
+    let siblings = roots;
+    segments.forEach((segment, depth) => {
+      let node = siblings.find((n) => n.name === segment);
+      if (!node) {
+        node = { name: segment, value: 0 };
+        siblings.push(node);
+      }
+      if (depth === segments.length - 1) {
+        node.value += value;
+      } else {
+        node.children = node.children || [];
+        siblings = node.children;
+      }
+    });
+  });
+  return roots;
+};
+
+// Infer the hierarchy encoded in the data and roll values up to parents
+export const buildHierarchy = (
+  data: ChartDataPoint[],
+  config: HierarchyConfig
+): HierarchyResult => {
+  const keys = Array.from(new Set(data.flatMap((item) => Object.keys(item))));
+  let result: HierarchyResult;
+
+  const parentKeys = findParentKeys(keys);
+  const pathKey = findPathKey(data, keys);
+  const levelKeys = (config.levelKeys || []).filter(
+    (key) => key !== pathKey?.pathKey
+  );
+
+  if (hasNestedChildren(data)) {
+    result = { source: "nested", roots: fromNested(data, config) };
+  } else if (parentKeys) {
+    result = {
+      source: "parent",
+      ...fromParentColumns(
+        data,
+        config,
+        parentKeys.idKey,
+        parentKeys.parentKey
+      ),
+    };
+  } else if (pathKey) {
+    result = {
+      source: "path",
+      roots: fromSegments(
+        data.map((item) => ({
+          segments: String(item[pathKey.pathKey] ?? "")
+            .split(pathKey.delimiter)
+            .map((segment) => segment.trim())
+            .filter((segment) => segment.length > 0),
+          value: toFiniteNumber(item[config.valueKey]) ?? 0,
+        }))
+      ),
+    };
+  } else if (levelKeys.length >= 2) {
+    result = {
+      source: "levels",
+      roots: fromSegments(
+        data.map((item) => ({
+          segments: levelKeys.map((key) => String(item[key] ?? "(blank)")),
+          value: toFiniteNumber(item[config.valueKey]) ?? 0,
+        }))
+      ),
+    };
+  } else {
+    result = {
+      source: "flat",
+      roots: data.map((item, idx) => ({
+        name: String(item[config.nameKey] ?? `Node${idx}`),
+        value: toFiniteNumber(item[config.valueKey]) ?? 0,
+      })),
+    };
+  }
+
+  result.roots.forEach(rollUp);
+  return result;
+};
+
+// Tree charts need a single root; wrap several top-level nodes in one
+export const toSingleRoot = (
+  roots: HierarchyNode[],
+  rootName: string
+): HierarchyNode | null => {
+  if (roots.length === 0) return null;
+  if (roots.length === 1) return roots[0];
+  return {
+    name: rootName,
+    value: roots.reduce((sum, node) => sum + node.value, 0),
+    children: roots,
+  };
+};
@@ -0,0 +1,150 @@
+// Missing-value handling shared by the series-based chart builders
+import type { ChartDataPoint } from "../types";
+import { toFiniteNumber } from "./statistics";
+
+// gap     - leave a hole in the series (default)
+// connect - skip the point but draw the line across it
+// zero    - treat missing values as 0
+// linear / previous / next - interpolate from neighbouring values
+export type MissingValuePolicy =
+  | "gap"
+  | "connect"
+  | "zero"
+  | "linear"
+  | "previous"
+  | "next";
+
+export const DEFAULT_MISSING_VALUE_POLICY: MissingValuePolicy = "gap";
+
+export const NO_DATA_LABEL = "no data";
+
+// Fill the holes in a sequence according to an interpolation policy.
+// Leading/trailing holes that have no neighbour on the needed side stay null.
+const fillMissing = (
+  values: Array<number | null>,
+  policy: "linear" | "previous" | "next"
+): Array<number | null> => {
+  const result = [...values];
+
+  if (policy === "previous") {
+    let last: number | null = null;
+    return result.map((val) => {
+      if (val !== null) last = val;
+      return val ?? last;
+    });
+  }
+
+  if (policy === "next") {
+    let next: number | null = null;
+    for (let i = result.length - 1; i >= 0; i--) {
+      if (result[i] !== null) next = result[i];
+      else result[i] = next;
+    }
+    return result;
+  }
+
+  // Linear interpolation between the nearest known neighbours
+  let prevIdx = -1;
+  result.forEach((val, idx) => {
+    if (val === null) return;
+    if (prevIdx >= 0 && idx - prevIdx > 1) {
+      const start = result[prevIdx] as number;
+      const step = (val - start) / (idx - prevIdx);
+      for (let i = prevIdx + 1; i < idx; i++) {
+        result[i] = start + step * (i - prevIdx);
+      }
+    }
+    prevIdx = idx;
+  });
+  return result;
+};
+
+// Read a numeric column, keeping missing entries as null unless the policy
+// fills them in. `order` lists row indices in plotted order (e.g. by date)
+// when that differs from the rows' own order, so neighbours are the points
+// drawn next to each other.
+export const resolveSeriesValues = (
+  data: ChartDataPoint[],
+  key: string,
+  policy: MissingValuePolicy = DEFAULT_MISSING_VALUE_POLICY,
+  order?: number[]
+): Array<number | null> => {
+  const values = data.map((item) => toFiniteNumber(item[key]));
+  switch (policy) {
+    case "zero":
+      return values.map((val) => val ?? 0);
+    case "linear":
+    case "previous":
+    case "next": {
+      if (!order) return fillMissing(values, policy);
+      const filled = fillMissing(
+        order.map((idx) => values[idx]),
+        policy
+      );
+      const result = [...values];
+      order.forEach((idx, position) => {
+        result[idx] = filled[position];
+      });
+      return result;
+    }
+    case "gap":
+    case "connect":
+    default:
+      return values;
+  }
+};
+
+// Tooltip value formatter that labels missing points instead of showing "-"
+export const formatMissingValue = (value: unknown): string => {
+  if (
+    value === null ||
+    value === undefined ||
+    value === "-" ||
+    (typeof value === "number" && isNaN(value))
+  ) {
+    return NO_DATA_LABEL;
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatMissingValue).join(", ");
+  }
+  return String(value);
+};
+
+// Parse the missing-value policy from a prompt
+export const parseMissingValuePolicy = (
+  prompt: string
+): MissingValuePolicy => {
+  const promptLower = prompt.toLowerCase();
+
+  if (
+    /(missing|null|empty|blank|gaps?)\s+(?:values?\s+)?(?:as|to|with)\s+(?:zero|0)\b/.test(
+      promptLower
+    ) ||
+    /(?:fill|replace)\s+(?:missing|null|gaps?)\w*\s+with\s+(?:zero|0)\b/.test(
+      promptLower
+    )
+  ) {
+    return "zero";
+  }
+  if (
+    /forward[\s-]?fill|carry\s+forward|previous\s+value|\bffill\b/.test(
+      promptLower
+    )
+  ) {
+    return "previous";
+  }
+  if (/back(?:ward)?[\s-]?fill|next\s+value|\bbfill\b/.test(promptLower)) {
+    return "next";
+  }
+  if (/interpolat/.test(promptLower)) {
+    return "linear";
+  }
+  if (
+    /connect\s+(?:the\s+)?(?:gaps?|nulls?|missing)|span\s+gaps/.test(
+      promptLower
+    )
+  ) {
+    return "connect";
+  }
+  return DEFAULT_MISSING_VALUE_POLICY;
+};
@@ -0,0 +1,262 @@
+// Network inference for the graph builder: edge lists, node tables and
+// adjacency matrices
+import type { ChartDataPoint, ChartNestedObject } from "../types";
+import { toFiniteNumber } from "./statistics";
+
+export type GraphLayout = "force" | "circular" | "none";
+
+export interface NetworkOptions {
+  layout: GraphLayout;
+  categoryKey?: string; // String column used to color nodes
+  undirected?: boolean; // A→B and B→A are the same edge
+}
+
+export const DEFAULT_NETWORK_OPTIONS: NetworkOptions = {
+  layout: "force",
+};
+
+export interface NetworkNode {
+  id: string;
+  name: string;
+  value: number; // Weighted degree
+  degree: number;
+  category?: string;
+  x?: number;
+  y?: number;
+}
+
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  value: number;
+}
+
+export type NetworkSource = "edges" | "adjacency" | "nodes";
+
+export interface Network {
+  source: NetworkSource;
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  categories: string[];
+}
+
+type Row = ChartDataPoint | ChartNestedObject;
+
+const ENDPOINT_PAIRS: Array<[RegExp, RegExp]> = [
+  [/^source$/i, /^target$/i],
+  [/^from$/i, /^to$/i],
+  [/^(src|source)[_-]?(id|node)?$/i, /^(dst|dest|target)[_-]?(id|node)?$/i],
+];
+const WEIGHT_KEY = /^(weight|value|count|strength|amount)$/i;
+const NODE_ID_KEY = /^(id|node|node[_-]?id|key)$/i;
+const NODE_LABEL_KEY = /^(name|label|title)$/i;
+const CATEGORY_KEY =
+  /group|category|type|team|department|class|cluster|community/i;
+
+const keysOf = (rows: Row[]) =>
+  Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+const findEndpointKeys = (keys: string[]): [string, string] | null => {
+  for (const [sourcePattern, targetPattern] of ENDPOINT_PAIRS) {
+    const sourceKey = keys.find((key) => sourcePattern.test(key));
+    const targetKey = keys.find((key) => targetPattern.test(key));
+    if (sourceKey && targetKey) return [sourceKey, targetKey];
+  }
+  return null;
+};
+
+// Split `[{ nodes: [...], links: [...] }]` payloads into their two tables
+const unwrapEnvelope = (
+  data: Row[]
+): { nodeRows: Row[]; edgeRows: Row[] } => {
+  if (data.length === 1) {
+    const envelope = data[0];
+    const nodeRows = envelope.nodes;
+    const edgeRows = envelope.links ?? envelope.edges;
+    if (Array.isArray(nodeRows) || Array.isArray(edgeRows)) {
+      return {
+        nodeRows: (Array.isArray(nodeRows) ? nodeRows : []) as Row[],
+        edgeRows: (Array.isArray(edgeRows) ? edgeRows : []) as Row[],
+      };
+    }
+  }
+  return { nodeRows: data, edgeRows: data };
+};
+
+// True when the rows are a `{ nodes, links }` envelope that flattening
+// would break apart
+export const hasNetworkEnvelope = (data: ChartDataPoint[]): boolean =>
+  data.length === 1 &&
+  (Array.isArray(data[0].nodes) ||
+    Array.isArray(data[0].links) ||
+    Array.isArray(data[0].edges));
+
+// A square table whose numeric columns are named after the row labels
+const findAdjacencyColumns = (
+  rows: Row[],
+  labelKey: string
+): string[] | null => {
+  const labels = new Set(rows.map((row) => String(row[labelKey] ?? "")));
+  const columns = keysOf(rows).filter(
+    (key) => key !== labelKey && labels.has(key)
+  );
+  return columns.length >= 2 && columns.length >= labels.size / 2
+    ? columns
+    : null;
+};
+
+// Build the node/edge model from whatever shape the data arrives in
+export const buildNetwork = (
+  data: ChartDataPoint[],
+  nameKey: string,
+  valueKey: string,
+  options: NetworkOptions = DEFAULT_NETWORK_OPTIONS
+): Network => {
+  const { nodeRows, edgeRows } = unwrapEnvelope(data);
+  const edgeKeys = keysOf(edgeRows);
+  const endpoints = findEndpointKeys(edgeKeys);
+
+  const nodes = new Map<string, NetworkNode>();
+  const edges: NetworkEdge[] = [];
+  const ensureNode = (id: string): NetworkNode => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id, name: id, value: 0, degree: 0 };
+      nodes.set(id, node);
+    }
+    return node;
+  };
+  const addEdge = (source: string, target: string, value: number) => {
+    if (!source || !target) return;
+    ensureNode(source);
+    ensureNode(target);
+    edges.push({ source, target, value });
+  };
+
+  // Node table: rows without endpoints, keyed by an id or label column
+  const tableRows = endpoints
+    ? nodeRows.filter(
+        (row) =>
+          row[endpoints[0]] === undefined && row[endpoints[1]] === undefined
+      )
+    : nodeRows;
+  const nodeKeys = keysOf(tableRows);
+  const idKey =
+    nodeKeys.find((key) => NODE_ID_KEY.test(key)) ||
+    nodeKeys.find((key) => NODE_LABEL_KEY.test(key)) ||
+    nameKey;
+  const labelKey = nodeKeys.find((key) => NODE_LABEL_KEY.test(key)) || idKey;
+  const categoryKey =
+    options.categoryKey && nodeKeys.includes(options.categoryKey)
+      ? options.categoryKey
+      : nodeKeys.find(
+          (key) =>
+            CATEGORY_KEY.test(key) &&
+            tableRows.some((row) => typeof row[key] === "string")
+        );
+
+  let source: NetworkSource = "nodes";
+  const adjacencyColumns = endpoints
+    ? null
+    : findAdjacencyColumns(nodeRows, labelKey);
+
+  if (endpoints) {
+    source = "edges";
+    const weightKey = edgeKeys.find(
+      (key) =>
+        WEIGHT_KEY.test(key) && key !== endpoints[0] && key !== endpoints[1]
+    );
+    edgeRows.forEach((row) => {
+      if (row[endpoints[0]] === undefined || row[endpoints[1]] === undefined) {
+        return;
+      }
+      addEdge(
+        String(row[endpoints[0]] ?? ""),
+        String(row[endpoints[1]] ?? ""),
+        weightKey ? toFiniteNumber(row[weightKey]) ?? 1 : 1
+      );
+    });
+  } else if (adjacencyColumns) {
+    source = "adjacency";
+    nodeRows.forEach((row) => {
+      const from = String(row[labelKey] ?? "");
+      adjacencyColumns.forEach((to) => {
+        const weight = toFiniteNumber(row[to]);
+        // A symmetric matrix lists each undirected edge twice; keep one.
+        // Directed graphs keep A→B and B→A even when their weights match.
+        const mirrored =
+          options.undirected &&
+          edges.some(
+            (edge) =>
+              edge.source === to &&
+              edge.target === from &&
+              edge.value === weight
+          );
+        if (weight && to !== from && !mirrored) {
+          addEdge(from, to, weight);
+        }
+      });
+    });
+  }
+
+  // Apply node-table attributes; standalone nodes are kept even without edges
+  if (source !== "adjacency") {
+    tableRows.forEach((row, idx) => {
+      const id = String(row[idKey] ?? `Node${idx}`);
+      const node = ensureNode(id);
+      node.name = String(row[labelKey] ?? id);
+      const x = toFiniteNumber(row.x);
+      const y = toFiniteNumber(row.y);
+      if (x !== null && y !== null) {
+        node.x = x;
+        node.y = y;
+      }
+      if (categoryKey && row[categoryKey] !== undefined) {
+        node.category = String(row[categoryKey]);
+      }
+      if (source === "nodes") {
+        node.value = toFiniteNumber(row[valueKey]) ?? 0;
+      }
+    });
+  }
+
+  edges.forEach((edge) => {
+    const sourceNode = nodes.get(edge.source)!;
+    const targetNode = nodes.get(edge.target)!;
+    sourceNode.degree += 1;
+    targetNode.degree += 1;
+    sourceNode.value += edge.value;
+    targetNode.value += edge.value;
+  });
+
+  const categories = Array.from(
+    new Set(
+      Array.from(nodes.values())
+        .map((node) => node.category)
+        .filter((category): category is string => category !== undefined)
+    )
+  );
+
+  return { source, nodes: Array.from(nodes.values()), edges, categories };
+};
+
+// Parse the requested graph layout from a prompt
+export const parseNetworkOptions = (prompt: string): NetworkOptions => {
+  const promptLower = prompt.toLowerCase();
+  const options: NetworkOptions = { ...DEFAULT_NETWORK_OPTIONS };
+  if (/circular|circle layout|\bring\b/.test(promptLower)) {
+    options.layout = "circular";
+  } else if (
+    /no layout|layout none|fixed (?:layout|positions)|static layout/.test(
+      promptLower
+    )
+  ) {
+    options.layout = "none";
+  } else if (/force/.test(promptLower)) {
+    options.layout = "force";
+  }
+  if (/\b(?:undirected|non-directed|symmetric)\b/.test(promptLower)) {
+    options.undirected = true;
+  }
+  return options;
+};
@@ -0,0 +1,324 @@
+// Named color palettes shared by the ECharts and Recharts configs
+export type PaletteKind = "categorical" | "sequential" | "diverging";
+
+export interface ColorPalette {
+  name: string;
+  kind: PaletteKind;
+  colors: string[];
+  colorblindSafe?: boolean;
+  aliases: RegExp; // Prompt phrases that select this palette
+}
+
+export const PALETTES: Record<string, ColorPalette> = {
+  default: {
+    name: "default",
+    kind: "categorical",
+    colors: [
+      "#5470c6",
+      "#91cc75",
+      "#fac858",
+      "#ee6666",
+      "#73c0de",
+      "#3ba272",
+      "#fc8452",
+      "#9a60b4",
+      "#ea7ccc",
+    ],
+    aliases: /\bdefault (?:palette|colou?rs)\b/,
+  },
+  tableau10: {
+    name: "tableau10",
+    kind: "categorical",
+    colors: [
+      "#4e79a7",
+      "#f28e2b",
+      "#e15759",
+      "#76b7b2",
+      "#59a14f",
+      "#edc948",
+      "#b07aa1",
+      "#ff9da7",
+      "#9c755f",
+      "#bab0ac",
+    ],
+    aliases: /\btableau\s*(?:10)?\b/,
+  },
+  okabeIto: {
+    name: "okabe-ito",
+    kind: "categorical",
+    colors: [
+      "#e69f00",
+      "#56b4e9",
+      "#009e73",
+      "#f0e442",
+      "#0072b2",
+      "#d55e00",
+      "#cc79a7",
+      "#000000",
+    ],
+    colorblindSafe: true,
+    aliases:
+      /okabe|colou?r[\s-]?blind|\bcvd\b|accessible colou?rs|deuteranop|protanop/,
+  },
+  set2: {
+    name: "set2",
+    kind: "categorical",
+    colors: [
+      "#66c2a5",
+      "#fc8d62",
+      "#8da0cb",
+      "#e78ac3",
+      "#a6d854",
+      "#ffd92f",
+      "#e5c494",
+      "#b3b3b3",
+    ],
+    aliases: /\bset\s*2\b|\bpastel\b/,
+  },
+  viridis: {
+    name: "viridis",
+    kind: "sequential",
+    colors: [
+      "#440154",
+      "#482878",
+      "#3e4989",
+      "#31688e",
+      "#26828e",
+      "#1f9e89",
+      "#35b779",
+      "#6ece58",
+      "#b5de2b",
+      "#fde725",
+    ],
+    colorblindSafe: true,
+    aliases: /\bviridis\b/,
+  },
+  magma: {
+    name: "magma",
+    kind: "sequential",
+    colors: [
+      "#000004",
+      "#180f3d",
+      "#440f76",
+      "#721f81",
+      "#9e2f7f",
+      "#cd4071",
+      "#f1605d",
+      "#fd9668",
+      "#feca8d",
+      "#fcfdbf",
+    ],
+    colorblindSafe: true,
+    aliases: /\bmagma\b/,
+  },
+  plasma: {
+    name: "plasma",
+    kind: "sequential",
+    colors: [
+      "#0d0887",
+      "#46039f",
+      "#7201a8",
+      "#9c179e",
+      "#bd3786",
+      "#d8576b",
+      "#ed7953",
+      "#fb9f3a",
+      "#fdca26",
+      "#f0f921",
+    ],
+    colorblindSafe: true,
+    aliases: /\bplasma\b/,
+  },
+  blues: {
+    name: "blues",
+    kind: "sequential",
+    colors: [
+      "#deebf7",
+      "#c6dbef",
+      "#9ecae1",
+      "#6baed6",
+      "#4292c6",
+      "#2171b5",
+      "#08519c",
+      "#08306b",
+    ],
+    aliases: /\bblues\b/,
+  },
+  greens: {
+    name: "greens",
+    kind: "sequential",
+    colors: [
+      "#e5f5e0",
+      "#c7e9c0",
+      "#a1d99b",
+      "#74c476",
+      "#41ab5d",
+      "#238b45",
+      "#006d2c",
+      "#00441b",
+    ],
+    aliases: /\bgreens\b/,
+  },
+  rdbu: {
+    name: "rdbu",
+    kind: "diverging",
+    colors: [
+      "#2166ac",
+      "#4393c3",
+      "#92c5de",
+      "#d1e5f0",
+      "#f7f7f7",
+      "#fddbc7",
+      "#f4a582",
+      "#d6604d",
+      "#b2182b",
+    ],
+    aliases: /\brd\s*bu\b|red[\s-]blue/,
+  },
+  brbg: {
+    name: "brbg",
+    kind: "diverging",
+    colors: [
+      "#8c510a",
+      "#bf812d",
+      "#dfc27d",
+      "#f6e8c3",
+      "#f5f5f5",
+      "#c7eae5",
+      "#80cdc1",
+      "#35978f",
+      "#01665e",
+    ],
+    colorblindSafe: true,
+    aliases: /\bbr\s*bg\b|brown[\s-]teal/,
+  },
+};
+
+export const DEFAULT_PALETTE = PALETTES.default;
+export const DEFAULT_SEQUENTIAL_PALETTE = PALETTES.blues;
+export const DEFAULT_DIVERGING_PALETTE = PALETTES.rdbu;
+
+export const DEFAULT_COLOR_SEED = 42;
+
+// Small deterministic PRNG (mulberry32) so "random" colors are reproducible
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Vibrant HSL colors from a seed; the same seed always gives the same colors
+export const generateSeededColors = (
+  count: number,
+  seed: number = DEFAULT_COLOR_SEED
+): string[] => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => {
+    const hue = Math.floor(random() * 360);
+    const saturation = 60 + Math.floor(random() * 40);
+    const lightness = 40 + Math.floor(random() * 30);
+    return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+  });
+};
+
+// Reorder ramp stops so neighbouring series get far-apart colors:
+// ends first, then repeated midpoints
+const spreadStops = (colors: string[]): string[] => {
+  const order: number[] = [];
+  const visit = (low: number, high: number) => {
+    if (low > high) return;
+    const mid = Math.floor((low + high) / 2);
+    order.push(mid);
+    visit(low, mid - 1);
+    visit(mid + 1, high);
+  };
+  if (colors.length <= 2) return [...colors];
+  order.push(0, colors.length - 1);
+  visit(1, colors.length - 2);
+  return order.map((idx) => colors[idx]);
+};
+
+// Colors to assign to series/categories, cycling to the requested count.
+// Sequential and diverging ramps are reordered to keep series distinct.
+export const getPaletteColors = (
+  palette: ColorPalette,
+  count: number = 20
+): string[] => {
+  const base =
+    palette.kind === "categorical"
+      ? palette.colors
+      : spreadStops(palette.colors);
+  return Array.from({ length: count }, (_, idx) => base[idx % base.length]);
+};
+
+// Seeded "random" colors - the same seed always yields the same palette
+export const generateRandomColors = (
+  count: number,
+  seed: number = DEFAULT_COLOR_SEED
+): string[] => generateSeededColors(count, seed);
+
+// Default palette for series and categories, stable across renders
+export const getRandomColorPalette = (count: number = 20): string[] =>
+  getPaletteColors(DEFAULT_PALETTE, count);
+
+export interface PaletteSelection {
+  palette: ColorPalette;
+  seed?: number; // Set when the prompt opts into seeded random colors
+}
+
+// Pick a palette by name or intent from a prompt
+export const resolvePalette = (prompt: string): PaletteSelection => {
+  const promptLower = prompt.toLowerCase();
+
+  if (/random (?:colou?rs|palette)/.test(promptLower)) {
+    const seedMatch = promptLower.match(/seed\s*(?:of|=|:)?\s*(\d+)/);
+    const seed = seedMatch ? parseInt(seedMatch[1], 10) : DEFAULT_COLOR_SEED;
+    return {
+      palette: {
+        name: `random-${seed}`,
+        kind: "categorical",
+        colors: generateSeededColors(20, seed),
+        aliases: /$^/,
+      },
+      seed,
+    };
+  }
+
+  const match = Object.values(PALETTES).find((palette) =>
+    palette.aliases.test(promptLower)
+  );
+  return { palette: match || DEFAULT_PALETTE };
+};
+
+// Name of the palette made from colors a prompt lists
+export const CUSTOM_PALETTE_NAME = "custom";
+
+// Palette for colors listed in a prompt ("blue, orange and grey")
+export const customPalette = (colors: string[]): ColorPalette => ({
+  name: CUSTOM_PALETTE_NAME,
+  kind: "categorical",
+  colors,
+  aliases: /$^/,
+});
+
+// Colors for a continuous visualMap scale; listed colors form the ramp
+// themselves
+export const getScaleColors = (
+  palette: ColorPalette | undefined,
+  diverging: boolean
+): string[] => {
+  if (palette?.name === CUSTOM_PALETTE_NAME && palette.colors.length > 0) {
+    return palette.colors;
+  }
+  if (diverging) {
+    return (palette?.kind === "diverging" ? palette : DEFAULT_DIVERGING_PALETTE)
+      .colors;
+  }
+  return (palette?.kind === "sequential" ? palette : DEFAULT_SEQUENTIAL_PALETTE)
+    .colors;
+};
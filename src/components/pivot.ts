@@ -0,0 +1,128 @@
+// Long-to-wide pivot: `{month, team, tickets}` rows become one row per month
+// with a column per team, so each team plots as its own series
+import type { FlattenedDataPoint } from "../types";
+import {
+  aggregateValues,
+  toFiniteNumber,
+  type AggregationType,
+} from "./statistics";
+
+export interface PivotResult {
+  data: FlattenedDataPoint[];
+  seriesKeys: string[]; // One column per distinct series label, first-seen order
+  combined: boolean; // Some (name, series) pairs held several rows
+}
+
+// More series than this stops being readable as separate lines or bars
+export const MAX_PIVOT_SERIES = 12;
+
+// Share of rows whose (name, series) pair must be unique for a column to
+// read as a series split rather than noise
+const PAIR_UNIQUENESS = 0.9;
+
+// Share of rows that must carry a series label
+const SERIES_COVERAGE = 0.9;
+
+// "split by team", "one line per region", "colored by metric"
+const SERIES_PATTERN =
+  /\b(?:split|broken down|break(?:ing)? down|series|lines?|bars?|areas?|stacked|grouped|segmented|colou?red)\s+(?:out\s+)?by\s+([\w.]+)|\bone\s+(?:line|series|bar|area|stream)\s+(?:per|for each)\s+([\w.]+)/;
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+// Word the prompt names as the series split, if any
+export const parseSeriesWord = (prompt: string): string | undefined => {
+  const match = prompt.toLowerCase().match(SERIES_PATTERN);
+  return match ? match[1] || match[2] : undefined;
+};
+
+// How well `seriesKey` splits long-format rows along `nameKey`: the share of
+// rows with a unique (name, series) pair, or 0 when it can't be a series
+// column
+export const scoreSeriesKey = (
+  rows: FlattenedDataPoint[],
+  nameKey: string,
+  seriesKey: string
+): number => {
+  if (seriesKey === nameKey || rows.length === 0) return 0;
+  const labels = new Set<string>();
+  const pairs = new Set<string>();
+  let covered = 0;
+  rows.forEach((row) => {
+    const series = row[seriesKey];
+    if (isMissing(series) || typeof series === "object") return;
+    covered += 1;
+    labels.add(String(series));
+    pairs.add(`${String(row[nameKey] ?? "")}\u0000${String(series)}`);
+  });
+  if (labels.size < 2 || labels.size > MAX_PIVOT_SERIES) return 0;
+  if (covered < rows.length * SERIES_COVERAGE) return 0;
+  return pairs.size / rows.length;
+};
+
+// Pick the category column that turns repeated `nameKey` labels into
+// series, preferring the fewest series; undefined when the rows aren't long
+// format
+export const detectSeriesKey = (
+  rows: FlattenedDataPoint[],
+  nameKey: string,
+  candidateKeys: string[]
+): string | undefined => {
+  const names = new Set(rows.map((row) => String(row[nameKey] ?? "")));
+  if (names.size === rows.length) return undefined;
+  const seriesCount = (key: string) =>
+    new Set(rows.map((row) => String(row[key] ?? ""))).size;
+  return candidateKeys
+    .filter((key) => scoreSeriesKey(rows, nameKey, key) >= PAIR_UNIQUENESS)
+    .sort((a, b) => seriesCount(a) - seriesCount(b))[0];
+};
+
+// One row per `nameKey` label with a column per `seriesKey` label holding
+// `valueKey`; duplicate (name, series) pairs are combined by `aggregation`
+// and missing pairs stay null
+export const pivotRows = (
+  rows: FlattenedDataPoint[],
+  nameKey: string,
+  seriesKey: string,
+  valueKey: string,
+  aggregation: AggregationType = "sum"
+): PivotResult => {
+  const seriesKeys: string[] = [];
+  const cells = new Map<string, Map<string, number[]>>();
+  const names = new Map<string, FlattenedDataPoint[string]>();
+  let combined = false;
+
+  rows.forEach((row) => {
+    const series = row[seriesKey];
+    if (isMissing(series)) return;
+    const seriesLabel = String(series);
+    const nameLabel = String(row[nameKey] ?? "");
+    if (!seriesKeys.includes(seriesLabel)) seriesKeys.push(seriesLabel);
+    if (!names.has(nameLabel)) {
+      names.set(nameLabel, row[nameKey]);
+      cells.set(nameLabel, new Map());
+    }
+    const seriesCells = cells.get(nameLabel) as Map<string, number[]>;
+    const values = seriesCells.get(seriesLabel) ?? [];
+    if (seriesCells.has(seriesLabel)) combined = true;
+    const value = toFiniteNumber(row[valueKey]);
+    // Count tallies rows even when the value is missing
+    if (value !== null || aggregation === "count") values.push(value ?? 0);
+    seriesCells.set(seriesLabel, values);
+  });
+
+  const data = Array.from(names.entries()).map(([nameLabel, name]) => {
+    const point: FlattenedDataPoint = { [nameKey]: name };
+    const seriesCells = cells.get(nameLabel) as Map<string, number[]>;
+    seriesKeys.forEach((seriesLabel) => {
+      const values = seriesCells.get(seriesLabel);
+      point[seriesLabel] =
+        values && values.length > 0
+          ? aggregateValues(values, aggregation)
+          : null;
+    });
+    return point;
+  });
+
+  return { data, seriesKeys, combined };
+};
@@ -0,0 +1,150 @@
+// Sort and limit stage: "top 10 agents by kpi score", "sorted ascending",
+// with the remainder folded into an "Other" slice for part-to-whole charts
+import type { ChartDataPoint } from "../types";
+import { toFiniteNumber } from "./statistics";
+
+export type SortDirection = "asc" | "desc";
+
+export interface RankOptions {
+  sortKey?: string; // Defaults to the plotted values
+  direction: SortDirection;
+  limit?: number; // Keep the first N rows after sorting
+  other?: boolean; // Fold the rows beyond `limit` into one "Other" row
+}
+
+export const OTHER_LABEL = "Other";
+export const OTHER_COLOR = "#9e9e9e";
+
+// "top 10", "bottom 5", "highest 3"
+const LIMIT_PATTERN =
+  /\b(top|bottom|highest|lowest|largest|smallest|biggest|best|worst)\s+(\d+)\b/;
+const DESCENDING_WORDS = ["top", "highest", "largest", "biggest", "best"];
+
+// "top 10 agents by kpi score", "sorted by revenue", "ranked by score"
+const SORT_KEY_PATTERN =
+  /\b(?:(?:top|bottom|highest|lowest|largest|smallest|biggest|best|worst)\s+\d+\s+(?:[\w.]+\s+){0,3}?by|(?:sort|sorted|order|ordered|rank|ranked)\s+by)\s+([\w.]+)/;
+
+const DESCENDING =
+  /\b(?:desc|descending|highest first|largest first|biggest first|high to low)\b/;
+const ASCENDING =
+  /\b(?:asc|ascending|lowest first|smallest first|low to high)\b/;
+const ALPHABETICAL = /\b(?:alphabetical(?:ly)?|a-z|a to z)\b/;
+const NO_OTHER = /\b(?:no|without)\s+["']?others?\b/;
+
+// Sort value of a row: `sortKey` when set, otherwise the sum of `valueKeys`
+const rowRankValue = (
+  row: ChartDataPoint,
+  valueKeys: string[],
+  sortKey?: string
+): number | string | null => {
+  if (sortKey) {
+    const value = row[sortKey];
+    const num = toFiniteNumber(value);
+    if (num !== null) return num;
+    return value === null || value === undefined || value === ""
+      ? null
+      : String(value);
+  }
+  const values = valueKeys
+    .map((key) => toFiniteNumber(row[key]))
+    .filter((value): value is number => value !== null);
+  return values.length > 0 ? values.reduce((sum, val) => sum + val, 0) : null;
+};
+
+// Sort items by `rankValue` (missing values last in either direction), cut
+// them to `limit` and fold the rest with `makeOther` when asked to
+export const rankItems = <T,>(
+  items: T[],
+  rankValue: (item: T) => number | string | null,
+  options: RankOptions,
+  makeOther?: (rest: T[]) => T
+): T[] => {
+  const sign = options.direction === "desc" ? -1 : 1;
+  const sorted = items
+    .map((item, idx) => ({ item, idx, value: rankValue(item) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        return a.value === b.value ? a.idx - b.idx : a.value === null ? 1 : -1;
+      }
+      const diff =
+        typeof a.value === "number" && typeof b.value === "number"
+          ? a.value - b.value
+          : String(a.value).localeCompare(String(b.value), undefined, {
+              numeric: true,
+            });
+      return diff !== 0 ? diff * sign : a.idx - b.idx;
+    })
+    .map(({ item }) => item);
+
+  if (!options.limit || options.limit >= sorted.length) return sorted;
+  const kept = sorted.slice(0, options.limit);
+  const rest = sorted.slice(options.limit);
+  return options.other && makeOther ? [...kept, makeOther(rest)] : kept;
+};
+
+// Rank chart rows; the "Other" row sums each value key over the remainder
+export const rankRows = <T extends ChartDataPoint>(
+  rows: T[],
+  nameKey: string,
+  valueKeys: string[],
+  options: RankOptions
+): T[] =>
+  rankItems(
+    rows,
+    (row) => rowRankValue(row, valueKeys, options.sortKey),
+    options,
+    (rest) => {
+      const other: ChartDataPoint = { [nameKey]: OTHER_LABEL };
+      valueKeys.forEach((key) => {
+        other[key] = rest.reduce(
+          (sum, row) => sum + (toFiniteNumber(row[key]) ?? 0),
+          0
+        );
+      });
+      return other as T;
+    }
+  );
+
+// Sorting and limits asked for in a prompt; undefined when it asks for
+// neither. `resolveKey` maps a prompt word to a data key.
+export const parseRankOptions = (
+  prompt: string,
+  nameKey: string,
+  resolveKey: (word: string) => string | undefined
+): RankOptions | undefined => {
+  const promptLower = prompt.toLowerCase();
+  const limitMatch = promptLower.match(LIMIT_PATTERN);
+  const sortKeyMatch = promptLower.match(SORT_KEY_PATTERN);
+  const alphabetical = ALPHABETICAL.test(promptLower);
+  const explicitDirection = DESCENDING.test(promptLower)
+    ? "desc"
+    : ASCENDING.test(promptLower)
+    ? "asc"
+    : undefined;
+  if (!limitMatch && !sortKeyMatch && !alphabetical && !explicitDirection) {
+    return undefined;
+  }
+
+  const sortKey = alphabetical
+    ? nameKey
+    : sortKeyMatch
+    ? resolveKey(sortKeyMatch[1])
+    : undefined;
+  const direction: SortDirection =
+    explicitDirection ??
+    (limitMatch
+      ? DESCENDING_WORDS.includes(limitMatch[1])
+        ? "desc"
+        : "asc"
+      : alphabetical
+      ? "asc"
+      : "desc");
+  const limit = limitMatch ? parseInt(limitMatch[2], 10) : undefined;
+
+  return {
+    ...(sortKey && { sortKey }),
+    direction,
+    ...(limit && limit > 0 && { limit }),
+    other: !NO_OTHER.test(promptLower),
+  };
+};
@@ -0,0 +1,452 @@
+// Trendline fitting: linear, polynomial, exponential, logarithmic, power
+// and LOESS fits with R², a readable equation and confidence bands
+import { mean } from "./statistics";
+
+export type TrendlineModel =
+  | "linear"
+  | "polynomial"
+  | "exponential"
+  | "logarithmic"
+  | "power"
+  | "loess";
+
+export const TRENDLINE_MODELS: TrendlineModel[] = [
+  "linear",
+  "polynomial",
+  "exponential",
+  "logarithmic",
+  "power",
+  "loess",
+];
+
+export interface TrendlineOptions {
+  model: TrendlineModel;
+  degree: number; // Polynomial degree
+  span: number; // Share of points in each LOESS neighbourhood
+  showEquation: boolean; // Put the equation and R² in the series name
+  confidence?: number; // Band level such as 0.95; omit for no band
+}
+
+export const DEFAULT_TRENDLINE_OPTIONS: TrendlineOptions = {
+  model: "linear",
+  degree: 2,
+  span: 0.75,
+  showEquation: false,
+};
+
+export interface TrendlineFit {
+  predict: (x: number) => number | null;
+  // Lower and upper bounds of the mean's confidence band at x
+  band?: (x: number) => [number, number] | null;
+  r2: number | null; // On the original y scale
+  equation: string; // e.g. "y = 2.31x + 4.1"
+}
+
+const MAX_DEGREE = 6;
+
+// Points LOESS fits at most; larger inputs are thinned evenly
+const MAX_LOESS_POINTS = 2000;
+
+type Point = [number, number];
+
+// Invert a small symmetric matrix by Gauss-Jordan elimination; null when
+// it is singular
+const invertMatrix = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const work = matrix.map((row, i) => [
+    ...row,
+    ...row.map((_, j) => (i === j ? 1 : 0)),
+  ]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(work[row][col]) > Math.abs(work[pivot][col])) pivot = row;
+    }
+    if (Math.abs(work[pivot][col]) < 1e-12) return null;
+    [work[col], work[pivot]] = [work[pivot], work[col]];
+    const scale = work[col][col];
+    work[col] = work[col].map((value) => value / scale);
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = work[row][col];
+      work[row] = work[row].map((value, j) => value - factor * work[col][j]);
+    }
+  }
+  return work.map((row) => row.slice(n));
+};
+
+// Two-sided Student t critical value, via the Cornish-Fisher expansion of
+// the normal quantile; close enough for plotting bands
+const tCritical = (confidence: number, dof: number): number => {
+  const p = 1 - (1 - confidence) / 2;
+  // Abramowitz & Stegun 26.2.23 approximation of the normal quantile
+  const t = Math.sqrt(-2 * Math.log(1 - p));
+  const z =
+    t -
+    (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+      (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+  if (dof <= 0) return z;
+  const z3 = z * z * z;
+  const z5 = z3 * z * z;
+  return (
+    z + (z3 + z) / (4 * dof) + (5 * z5 + 16 * z3 + 3 * z) / (96 * dof * dof)
+  );
+};
+
+// Least squares on a basis, with the covariance needed for bands
+const leastSquares = (
+  rows: number[][],
+  targets: number[]
+): { coefficients: number[]; covariance: number[][]; sse: number } | null => {
+  const p = rows[0]?.length ?? 0;
+  if (rows.length <= p) return null;
+  const xtx = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) =>
+      rows.reduce((sum, row) => sum + row[i] * row[j], 0)
+    )
+  );
+  const inverse = invertMatrix(xtx);
+  if (!inverse) return null;
+  const xty = Array.from({ length: p }, (_, i) =>
+    rows.reduce((sum, row, k) => sum + row[i] * targets[k], 0)
+  );
+  const coefficients = inverse.map((row) =>
+    row.reduce((sum, value, j) => sum + value * xty[j], 0)
+  );
+  const sse = rows.reduce((sum, row, k) => {
+    const fitted = row.reduce(
+      (acc, value, j) => acc + value * coefficients[j],
+      0
+    );
+    return sum + (targets[k] - fitted) ** 2;
+  }, 0);
+  return { coefficients, covariance: inverse, sse };
+};
+
+const rSquared = (
+  points: Point[],
+  predict: (x: number) => number | null
+): number | null => {
+  const yMean = mean(points.map(([, y]) => y));
+  const sst = points.reduce((sum, [, y]) => sum + (y - yMean) ** 2, 0);
+  if (sst === 0) return null;
+  const sse = points.reduce((sum, [x, y]) => {
+    const fitted = predict(x);
+    return sum + (fitted === null ? 0 : (y - fitted) ** 2);
+  }, 0);
+  return 1 - sse / sst;
+};
+
+const formatNumber = (value: number) => {
+  const abs = Math.abs(value);
+  return abs !== 0 && (abs >= 1e6 || abs < 1e-3)
+    ? value.toExponential(2)
+    : String(Number(value.toPrecision(4)));
+};
+
+// "3.2x² − 1.5x + 4"; coefficients are lowest power first
+const formatPolynomial = (coefficients: number[], variable = "x") => {
+  const powers = ["", "", "²", "³", "⁴", "⁵", "⁶"];
+  const terms = coefficients
+    .map((value, power) => ({ value, power }))
+    .filter(({ value }) => value !== 0)
+    .reverse();
+  if (terms.length === 0) return "0";
+  return terms
+    .map(({ value, power }, idx) => {
+      const text =
+        formatNumber(Math.abs(value)) +
+        (power === 0 ? "" : `${variable}${powers[power]}`);
+      if (idx === 0) return value < 0 ? `−${text}` : text;
+      return `${value < 0 ? "−" : "+"} ${text}`;
+    })
+    .join(" ");
+};
+
+// Expand Σ b_k ((x − center) / scale)^k into coefficients of x^k
+const unscalePolynomial = (
+  coefficients: number[],
+  center: number,
+  scale: number
+): number[] => {
+  const result = coefficients.map(() => 0);
+  const binomial = (n: number, k: number) => {
+    let value = 1;
+    for (let i = 1; i <= k; i++) value = (value * (n - i + 1)) / i;
+    return value;
+  };
+  coefficients.forEach((b, k) => {
+    for (let j = 0; j <= k; j++) {
+      result[j] +=
+        b *
+        binomial(k, j) *
+        Math.pow(1 / scale, j) *
+        Math.pow(-center / scale, k - j);
+    }
+  });
+  return result;
+};
+
+// Models that are linear in their parameters after transforming x and y
+const fitLinearModel = (
+  points: Point[],
+  options: TrendlineOptions
+): TrendlineFit | null => {
+  const { model } = options;
+  const logX = model === "logarithmic" || model === "power";
+  const logY = model === "exponential" || model === "power";
+  const usable = points.filter(
+    ([x, y]) => (!logX || x > 0) && (!logY || y > 0)
+  );
+  const degree =
+    model === "polynomial"
+      ? Math.min(Math.max(1, Math.round(options.degree)), MAX_DEGREE)
+      : 1;
+  if (usable.length <= degree + 1) return null;
+
+  // Standardize x so large values (timestamps, years) stay well conditioned
+  const xs = usable.map(([x]) => (logX ? Math.log(x) : x));
+  const center = mean(xs);
+  const scale = Math.sqrt(mean(xs.map((x) => (x - center) ** 2))) || 1;
+  const basis = (x: number) => {
+    const u = ((logX ? Math.log(x) : x) - center) / scale;
+    return Array.from({ length: degree + 1 }, (_, k) => Math.pow(u, k));
+  };
+  const fit = leastSquares(
+    usable.map(([x]) => basis(x)),
+    usable.map(([, y]) => (logY ? Math.log(y) : y))
+  );
+  if (!fit) return null;
+  const { coefficients, covariance, sse } = fit;
+  const linear = (x: number) =>
+    basis(x).reduce((sum, value, k) => sum + value * coefficients[k], 0);
+  const valid = (x: number) => !logX || x > 0;
+  const predict = (x: number) =>
+    valid(x) ? (logY ? Math.exp(linear(x)) : linear(x)) : null;
+
+  const dof = usable.length - coefficients.length;
+  const confidence = options.confidence;
+  const band =
+    confidence && dof > 0
+      ? (x: number): [number, number] | null => {
+          if (!valid(x)) return null;
+          const row = basis(x);
+          const variance =
+            (sse / dof) *
+            row.reduce(
+              (sum, a, i) =>
+                sum +
+                row.reduce((acc, b, j) => acc + a * covariance[i][j] * b, 0),
+              0
+            );
+          const half =
+            tCritical(confidence, dof) * Math.sqrt(Math.max(0, variance));
+          const value = linear(x);
+          return logY
+            ? [Math.exp(value - half), Math.exp(value + half)]
+            : [value - half, value + half];
+        }
+      : undefined;
+
+  const [a, b] = unscalePolynomial(coefficients, center, scale);
+  const equation =
+    model === "exponential"
+      ? `y = ${formatNumber(Math.exp(a))}·e^(${formatNumber(b)}x)`
+      : model === "logarithmic"
+      ? `y = ${formatPolynomial([a, b], "·ln(x)")}`
+      : model === "power"
+      ? `y = ${formatNumber(Math.exp(a))}·x^${formatNumber(b)}`
+      : `y = ${formatPolynomial(
+          unscalePolynomial(coefficients, center, scale)
+        )}`;
+
+  return { predict, band, r2: rSquared(usable, predict), equation };
+};
+
+// Local linear regression with tricube weights over the nearest `span` of
+// the points (Cleveland's LOESS without robustness iterations). Large inputs
+// are thinned to MAX_LOESS_POINTS evenly spaced points, and each fit only
+// visits its neighbourhood, found by sliding a window over the sorted x
+// values.
+const fitLoess = (
+  points: Point[],
+  options: TrendlineOptions
+): TrendlineFit | null => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0]);
+  const step = Math.max(1, sorted.length / MAX_LOESS_POINTS);
+  const sample =
+    step > 1
+      ? Array.from(
+          { length: Math.floor(sorted.length / step) },
+          (_, i) => sorted[Math.floor(i * step)]
+        )
+      : sorted;
+  const n = sample.length;
+  if (n < 3) return null;
+  const xs = sample.map(([x]) => x);
+  const ys = sample.map(([, y]) => y);
+  const span = Math.min(Math.max(options.span, 0.1), 1);
+  const neighbours = Math.min(n, Math.max(3, Math.ceil(span * n)));
+
+  // Index range [left, right) of the `neighbours` points nearest to x
+  const neighbourhood = (x: number): [number, number] => {
+    let left = 0;
+    let right = n;
+    while (left < right) {
+      const middle = (left + right) >> 1;
+      if (xs[middle] < x) left = middle + 1;
+      else right = middle;
+    }
+    right = left;
+    while (right - left < neighbours) {
+      if (left === 0) right++;
+      else if (right === n) left--;
+      else if (x - xs[left - 1] <= xs[right] - x) left--;
+      else right++;
+    }
+    return [left, right];
+  };
+
+  // Fitted value at x, and the sum of its squared smoother weights for the
+  // band, from running sums over the neighbourhood
+  const local = (x: number) => {
+    const [left, right] = neighbourhood(x);
+    const reach = Math.max(x - xs[left], xs[right - 1] - x) || 1;
+    let s0 = 0;
+    let s1 = 0;
+    let s2 = 0;
+    let t0 = 0;
+    let t1 = 0;
+    let q0 = 0;
+    let q1 = 0;
+    let q2 = 0;
+    for (let i = left; i < right; i++) {
+      const d = xs[i] - x;
+      const u = Math.abs(d) / reach;
+      const cube = 1 - u * u * u;
+      const w = u < 1 ? cube * cube * cube : 0;
+      s0 += w;
+      s1 += w * d;
+      s2 += w * d * d;
+      t0 += w * ys[i];
+      t1 += w * d * ys[i];
+      q0 += w * w;
+      q1 += w * w * d;
+      q2 += w * w * d * d;
+    }
+    const det = s0 * s2 - s1 * s1;
+    // Points all at one x fall back to their weighted mean
+    if (Math.abs(det) < 1e-12) {
+      return s0 > 0
+        ? { value: t0 / s0, leverage: q0 / (s0 * s0) }
+        : { value: 0, leverage: 0 };
+    }
+    return {
+      value: (s2 * t0 - s1 * t1) / det,
+      leverage:
+        (s2 * s2 * q0 - 2 * s2 * s1 * q1 + s1 * s1 * q2) / (det * det),
+    };
+  };
+
+  const predict = (x: number) => local(x).value;
+  const sse = sample.reduce((sum, [x, y]) => sum + (y - predict(x)) ** 2, 0);
+  const dof = n - 2;
+  const confidence = options.confidence;
+  const band =
+    confidence && dof > 0
+      ? (x: number): [number, number] => {
+          const { value, leverage } = local(x);
+          const half =
+            tCritical(confidence, dof) *
+            Math.sqrt(sse / dof) *
+            Math.sqrt(Math.max(0, leverage));
+          return [value - half, value + half];
+        }
+      : undefined;
+
+  return {
+    predict,
+    band,
+    r2: rSquared(sample, predict),
+    equation: `LOESS, span ${span}`,
+  };
+};
+
+// Fit `options.model` to the points; null when there are too few usable
+// points (e.g. a log fit needs positive x)
+export const fitTrendline = (
+  points: Point[],
+  options: TrendlineOptions
+): TrendlineFit | null =>
+  options.model === "loess"
+    ? fitLoess(points, options)
+    : fitLinearModel(points, options);
+
+// Series label such as "y = 2.1x + 3 (R² = 0.94)"
+export const describeFit = (fit: TrendlineFit): string =>
+  fit.r2 === null
+    ? fit.equation
+    : `${fit.equation} (R² = ${fit.r2.toFixed(3)})`;
+
+const DEGREE_WORDS: Record<string, number> = {
+  quadratic: 2,
+  cubic: 3,
+  quartic: 4,
+};
+
+// Fit model, degree, span, equation and band choices from a prompt
+export const parseTrendlineOptions = (prompt: string): TrendlineOptions => {
+  const promptLower = prompt.toLowerCase();
+  const options: TrendlineOptions = { ...DEFAULT_TRENDLINE_OPTIONS };
+
+  const degreeWord = promptLower.match(/\b(quadratic|cubic|quartic)\b/);
+  const degreeMatch = promptLower.match(
+    /\b(?:degree|order)[\s-]*(\d)\b|\b(\d)(?:st|nd|rd|th)?[\s-]*(?:degree|order)\b/
+  );
+  if (
+    /\b(?:loess|lowess|local(?:ly weighted)? regression|smoothed trend)\b/.test(
+      promptLower
+    )
+  ) {
+    options.model = "loess";
+  } else if (degreeWord || /\bpolynomial\b|\bpoly fit\b/.test(promptLower)) {
+    options.model = "polynomial";
+  } else if (/\bexponential\b/.test(promptLower)) {
+    options.model = "exponential";
+  } else if (/\blogarithmic\b|\blog (?:fit|trend|curve)\b/.test(promptLower)) {
+    options.model = "logarithmic";
+  } else if (
+    /\bpower[\s-](?:law|fit|trend|curve|regression)\b/.test(promptLower)
+  ) {
+    options.model = "power";
+  }
+  if (degreeWord) {
+    options.degree = DEGREE_WORDS[degreeWord[1]];
+  } else if (degreeMatch) {
+    options.degree = parseInt(degreeMatch[1] || degreeMatch[2], 10);
+  }
+
+  const spanMatch = promptLower.match(
+    /\b(?:span|bandwidth)\s*(?:of\s*)?(0?\.\d+|1(?:\.0+)?)\b/
+  );
+  if (spanMatch) options.span = parseFloat(spanMatch[1]);
+
+  options.showEquation =
+    /\br²|\br2\b|\br[\s-]squared\b|\bequation\b|\bformula\b|\bgoodness of fit\b/.test(
+      promptLower
+    );
+
+  const levelMatch = promptLower.match(
+    /\b(\d{2}(?:\.\d+)?)\s*%\s*(?:confidence|ci\b|prediction)/
+  );
+  if (levelMatch) {
+    options.confidence = parseFloat(levelMatch[1]) / 100;
+  } else if (
+    /\bconfidence (?:band|interval|region)s?\b|\bci\b|\berror bands?\b|\buncertainty\b/.test(
+      promptLower
+    )
+  ) {
+    options.confidence = 0.95;
+  }
+  return options;
+};
@@ -0,0 +1,165 @@
+// Time-series resampling: group rows into hour/day/week/month/quarter/year
+// buckets and aggregate their numeric fields
+import type { FlattenedDataPoint } from "../types";
+import { isoWeekStart, parseDateValue, type TemporalFormat } from "./dates";
+import {
+  aggregateValues,
+  parseAggregation,
+  toFiniteNumber,
+  type AggregationType,
+} from "./statistics";
+
+export type TimeBucket = "hour" | "day" | "week" | "month" | "quarter" | "year";
+
+export const TIME_BUCKETS: TimeBucket[] = [
+  "hour",
+  "day",
+  "week",
+  "month",
+  "quarter",
+  "year",
+];
+
+export interface ResampleOptions {
+  bucket: TimeBucket;
+  aggregation: AggregationType;
+}
+
+const BUCKET_PATTERNS: Record<TimeBucket, RegExp> = {
+  hour: /\bhourly\b|\b(?:per|by|each|every)\s+hour\b/,
+  day: /\bdaily\b|\b(?:per|by|each|every)\s+day\b/,
+  week: /\bweekly\b|\b(?:per|by|each|every)\s+week\b/,
+  month: /\bmonthly\b|\b(?:per|by|each|every)\s+month\b/,
+  quarter: /\bquarterly\b|\b(?:per|by|each|every)\s+quarter\b/,
+  year: /\b(?:yearly|annual|annually)\b|\b(?:per|by|each|every)\s+year\b/,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Start of the bucket holding `time`, in local time
+const bucketStart = (time: number, bucket: TimeBucket): number => {
+  const date = new Date(time);
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  switch (bucket) {
+    case "hour":
+      return new Date(
+        year,
+        month,
+        date.getDate(),
+        date.getHours()
+      ).getTime();
+    case "day":
+      return new Date(year, month, date.getDate()).getTime();
+    case "week":
+      // Weeks start on Monday, as in ISO weeks
+      return new Date(
+        year,
+        month,
+        date.getDate() - ((date.getDay() + 6) % 7)
+      ).getTime();
+    case "month":
+      return new Date(year, month, 1).getTime();
+    case "quarter":
+      return new Date(year, month - (month % 3), 1).getTime();
+    case "year":
+      return new Date(year, 0, 1).getTime();
+  }
+};
+
+// ISO 8601 week label; the week belongs to the year holding its Thursday
+const isoWeekLabel = (monday: number): string => {
+  const thursday = new Date(monday + 3 * DAY_MS);
+  const year = thursday.getFullYear();
+  const firstMonday = isoWeekStart(year, 1) as number;
+  // Rounding absorbs daylight-saving shifts between the two Mondays
+  const week = Math.round((monday - firstMonday) / (7 * DAY_MS)) + 1;
+  return `${year}-W${pad(week)}`;
+};
+
+// Labels are ones parseDateValue reads back, except bare years
+export const formatBucket = (start: number, bucket: TimeBucket): string => {
+  const date = new Date(start);
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+  switch (bucket) {
+    case "hour":
+      return `${day} ${pad(date.getHours())}:00`;
+    case "day":
+      return day;
+    case "week":
+      return isoWeekLabel(start);
+    case "month":
+      return day.slice(0, 7);
+    case "quarter":
+      return `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+    case "year":
+      return String(date.getFullYear());
+  }
+};
+
+// Group rows by the time bucket of `timeKey` and aggregate each value key.
+// Other columns are kept where the bucket's rows agree on them. Rows whose
+// time doesn't parse are dropped; buckets come back in order.
+export const resampleRows = (
+  rows: FlattenedDataPoint[],
+  timeKey: string,
+  format: TemporalFormat,
+  valueKeys: string[],
+  options: ResampleOptions
+): FlattenedDataPoint[] => {
+  const buckets = new Map<number, FlattenedDataPoint[]>();
+  rows.forEach((row) => {
+    const time = parseDateValue(row[timeKey], format);
+    if (time === null) return;
+    const start = bucketStart(time, options.bucket);
+    const bucketRows = buckets.get(start);
+    if (bucketRows) bucketRows.push(row);
+    else buckets.set(start, [row]);
+  });
+
+  return Array.from(buckets.keys())
+    .sort((a, b) => a - b)
+    .map((start) => {
+      const bucketRows = buckets.get(start) as FlattenedDataPoint[];
+      const point: FlattenedDataPoint = {};
+      Object.keys(bucketRows[0]).forEach((key) => {
+        const value = bucketRows[0][key];
+        if (bucketRows.every((row) => row[key] === value)) point[key] = value;
+      });
+      point[timeKey] = formatBucket(start, options.bucket);
+      valueKeys.forEach((key) => {
+        const values = bucketRows
+          .map((row) => toFiniteNumber(row[key]))
+          .filter((value): value is number => value !== null);
+        // An empty bucket is a gap, except that it counts zero rows
+        point[key] =
+          values.length > 0 || options.aggregation === "count"
+            ? aggregateValues(values, options.aggregation)
+            : null;
+      });
+      return point;
+    });
+};
+
+// "monthly revenue", "tickets per week", "average daily sessions"; undefined
+// when the prompt names no time bucket. The coarsest bucket mentioned wins,
+// so "daily users by month" buckets by month.
+export const parseResampleOptions = (
+  prompt: string,
+  isMeasure?: (word: string) => boolean
+): ResampleOptions | undefined => {
+  const promptLower = prompt.toLowerCase();
+  const bucket = [...TIME_BUCKETS].reverse().find((candidate) =>
+    BUCKET_PATTERNS[candidate].test(promptLower)
+  );
+  return bucket
+    ? {
+        bucket,
+        aggregation: parseAggregation(promptLower, "sum", isMeasure),
+      }
+    : undefined;
+};
@@ -0,0 +1,438 @@
+// Statistical helpers shared by the distribution chart builders
+import type { ChartDataPoint, FlattenedDataPoint } from "../types";
+
+export type BinningMethod = "sturges" | "freedman-diaconis" | "scott" | "fixed";
+
+export type HistogramMode = "count" | "density" | "cumulative";
+
+export interface HistogramOptions {
+  method: BinningMethod;
+  binCount?: number; // Used when method is "fixed"
+  binWidth?: number; // Takes precedence over binCount when set
+  mode: HistogramMode;
+}
+
+export interface HistogramBin {
+  x0: number; // Inclusive lower edge
+  x1: number; // Exclusive upper edge (inclusive for the last bin)
+  count: number;
+  density: number; // count / (n * width), integrates to 1
+  cumulative: number; // Running fraction of observations up to x1
+}
+
+export const DEFAULT_HISTOGRAM_OPTIONS: HistogramOptions = {
+  method: "sturges",
+  mode: "count",
+};
+
+// Upper bound on generated bins so a tiny bin width can't freeze the chart
+const MAX_BINS = 200;
+
+// Math.min/Math.max over a column; spreading a column into call arguments
+// overflows the stack past roughly 100k values. Empty lists give
+// Infinity/-Infinity, as Math.min()/Math.max() do.
+export const minValue = (values: number[]): number =>
+  values.reduce((min, value) => (value < min ? value : min), Infinity);
+
+export const maxValue = (values: number[]): number =>
+  values.reduce((max, value) => (value > max ? value : max), -Infinity);
+
+// Convert a raw cell value to a finite number, or null if it isn't one
+export const toFiniteNumber = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Collect the numeric observations of a column, skipping missing values
+export const extractNumericValues = (
+  data: Array<ChartDataPoint | FlattenedDataPoint>,
+  key: string
+): number[] => {
+  const values: number[] = [];
+  data.forEach((item) => {
+    const num = toFiniteNumber(item[key]);
+    if (num !== null) {
+      values.push(num);
+    }
+  });
+  return values;
+};
+
+export const mean = (values: number[]): number =>
+  values.length > 0
+    ? values.reduce((sum, val) => sum + val, 0) / values.length
+    : 0;
+
+// Sample standard deviation (n - 1 denominator)
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance =
+    values.reduce((sum, val) => sum + (val - avg) * (val - avg), 0) /
+    (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+// Quantile with linear interpolation between closest ranks (R type 7).
+// Expects values sorted ascending.
+export const quantile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return NaN;
+  if (sorted.length === 1) return sorted[0];
+  const position = (sorted.length - 1) * Math.min(Math.max(p, 0), 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const weight = position - lower;
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * weight;
+};
+
+export const interquartileRange = (sorted: number[]): number =>
+  quantile(sorted, 0.75) - quantile(sorted, 0.25);
+
+// Pick a bin width for the requested rule, falling back to Sturges when the
+// data is too concentrated for a spread-based rule to give a usable width
+const resolveBinWidth = (
+  sorted: number[],
+  options: HistogramOptions
+): number => {
+  const n = sorted.length;
+  const range = sorted[n - 1] - sorted[0];
+
+  if (options.binWidth && options.binWidth > 0) {
+    return options.binWidth;
+  }
+
+  const sturgesWidth = range / Math.ceil(Math.log2(n) + 1);
+
+  switch (options.method) {
+    case "fixed": {
+      const count = Math.max(1, Math.round(options.binCount || 10));
+      return range / count;
+    }
+    case "freedman-diaconis": {
+      const width = (2 * interquartileRange(sorted)) / Math.cbrt(n);
+      return width > 0 ? width : sturgesWidth;
+    }
+    case "scott": {
+      const width = (3.49 * standardDeviation(sorted)) / Math.cbrt(n);
+      return width > 0 ? width : sturgesWidth;
+    }
+    case "sturges":
+    default:
+      return sturgesWidth;
+  }
+};
+
+// Bin raw observations into contiguous, equal-width intervals
+export const computeHistogramBins = (
+  values: number[],
+  options: HistogramOptions = DEFAULT_HISTOGRAM_OPTIONS
+): HistogramBin[] => {
+  if (values.length === 0) return [];
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const min = sorted[0];
+  const max = sorted[n - 1];
+
+  // All observations identical - a single unit-wide bin centred on the value
+  if (max === min) {
+    return [
+      { x0: min - 0.5, x1: max + 0.5, count: n, density: 1, cumulative: 1 },
+    ];
+  }
+
+  let width = resolveBinWidth(sorted, options);
+  let binCount = Math.ceil((max - min) / width);
+  if (binCount > MAX_BINS) {
+    binCount = MAX_BINS;
+    width = (max - min) / binCount;
+  }
+  binCount = Math.max(1, binCount);
+
+  // Anchor bins at the minimum; a user-provided width keeps its exact size
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    x0: min + i * width,
+    x1:
+      i === binCount - 1
+        ? Math.max(max, min + (i + 1) * width)
+        : min + (i + 1) * width,
+    count: 0,
+    density: 0,
+    cumulative: 0,
+  }));
+
+  sorted.forEach((val) => {
+    const idx = Math.min(Math.floor((val - min) / width), binCount - 1);
+    bins[idx].count += 1;
+  });
+
+  let running = 0;
+  bins.forEach((bin) => {
+    running += bin.count;
+    const binWidth = bin.x1 - bin.x0;
+    bin.density = binWidth > 0 ? bin.count / (n * binWidth) : 0;
+    bin.cumulative = running / n;
+  });
+
+  return bins;
+};
+
+// Compact label for a bin edge that keeps small ranges readable
+export const formatBinEdge = (value: number): string => {
+  if (Number.isInteger(value)) return String(value);
+  const abs = Math.abs(value);
+  const digits = abs >= 100 ? 0 : abs >= 1 ? 2 : 3;
+  return String(parseFloat(value.toFixed(digits)));
+};
+
+// Parse binning rule, bin count/width and y-axis mode from a prompt
+export const parseHistogramOptions = (prompt: string): HistogramOptions => {
+  const promptLower = prompt.toLowerCase();
+  const options: HistogramOptions = { ...DEFAULT_HISTOGRAM_OPTIONS };
+
+  if (/freedman|diaconis|\bfd\b/.test(promptLower)) {
+    options.method = "freedman-diaconis";
+  } else if (/\bscott\b/.test(promptLower)) {
+    options.method = "scott";
+  } else if (/\bsturges\b/.test(promptLower)) {
+    options.method = "sturges";
+  }
+
+  // "20 bins", "20 buckets"
+  const countMatch = promptLower.match(/(\d+)\s*(?:bins|buckets|intervals)\b/);
+  if (countMatch) {
+    options.method = "fixed";
+    options.binCount = parseInt(countMatch[1], 10);
+  }
+
+  // "bin width 5", "bin size of 0.5", "bins of width 10"
+  const widthMatch = promptLower.match(
+    /bin\s*(?:width|size)\s*(?:of|=|:)?\s*(\d*\.?\d+)|bins?\s+of\s+(?:width\s+)?(\d*\.?\d+)/
+  );
+  if (widthMatch) {
+    const width = parseFloat(widthMatch[1] || widthMatch[2]);
+    if (width > 0) {
+      options.method = "fixed";
+      options.binWidth = width;
+    }
+  }
+
+  if (/cumulative/.test(promptLower)) {
+    options.mode = "cumulative";
+  } else if (/density|normali[sz]ed|probability/.test(promptLower)) {
+    options.mode = "density";
+  }
+
+  return options;
+};
+
+export type KernelType = "gaussian" | "epanechnikov";
+
+export interface DensityOptions {
+  kernel: KernelType;
+  bandwidth?: number; // Overrides Silverman's rule when set
+  gridSize: number; // Number of evaluation points
+}
+
+export const DEFAULT_DENSITY_OPTIONS: DensityOptions = {
+  kernel: "gaussian",
+  gridSize: 128,
+};
+
+const KERNELS: Record<KernelType, (u: number) => number> = {
+  gaussian: (u) => Math.exp(-0.5 * u * u) / Math.sqrt(2 * Math.PI),
+  epanechnikov: (u) => (Math.abs(u) <= 1 ? 0.75 * (1 - u * u) : 0),
+};
+
+// Silverman's rule of thumb: 0.9 * min(sd, IQR / 1.34) * n^(-1/5)
+export const silvermanBandwidth = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 1;
+  const sorted = [...values].sort((a, b) => a - b);
+  const sd = standardDeviation(sorted);
+  const iqrScale = interquartileRange(sorted) / 1.34;
+  const spread = iqrScale > 0 ? Math.min(sd, iqrScale) : sd;
+  // Constant data has no spread; fall back to a unit bandwidth
+  return spread > 0 ? 0.9 * spread * Math.pow(n, -0.2) : 1;
+};
+
+// Evenly spaced points over [min, max], padded so the tails reach zero
+export const buildEvaluationGrid = (
+  min: number,
+  max: number,
+  padding: number,
+  size: number
+): number[] => {
+  const start = min - padding;
+  const end = max + padding;
+  const count = Math.max(2, size);
+  const step = (end - start) / (count - 1);
+  return Array.from({ length: count }, (_, i) => start + i * step);
+};
+
+// Kernel density estimate evaluated at each grid point
+export const kernelDensityEstimate = (
+  values: number[],
+  grid: number[],
+  bandwidth: number,
+  kernel: KernelType = "gaussian"
+): number[] => {
+  const n = values.length;
+  if (n === 0 || bandwidth <= 0) return grid.map(() => 0);
+  const k = KERNELS[kernel];
+  return grid.map(
+    (x) =>
+      values.reduce((sum, val) => sum + k((x - val) / bandwidth), 0) /
+      (n * bandwidth)
+  );
+};
+
+// Kernel support reach in bandwidths, used to pad the evaluation grid
+export const kernelReach = (kernel: KernelType): number =>
+  kernel === "epanechnikov" ? 1 : 3;
+
+// Parse kernel type and bandwidth override from a prompt
+export const parseDensityOptions = (prompt: string): DensityOptions => {
+  const promptLower = prompt.toLowerCase();
+  const options: DensityOptions = { ...DEFAULT_DENSITY_OPTIONS };
+
+  if (/epanechnikov/.test(promptLower)) {
+    options.kernel = "epanechnikov";
+  } else if (/gaussian|normal kernel/.test(promptLower)) {
+    options.kernel = "gaussian";
+  }
+
+  // "bandwidth 2.5", "bandwidth of 3", "bw=0.5"
+  const bandwidthMatch = promptLower.match(
+    /(?:bandwidth|\bbw)\s*(?:of|=|:)?\s*(\d*\.?\d+)/
+  );
+  if (bandwidthMatch) {
+    const bandwidth = parseFloat(bandwidthMatch[1]);
+    if (bandwidth > 0) {
+      options.bandwidth = bandwidth;
+    }
+  }
+
+  return options;
+};
+
+export interface BoxplotStats {
+  lowerWhisker: number; // Lowest observation within Q1 - 1.5 * IQR
+  q1: number;
+  median: number;
+  q3: number;
+  upperWhisker: number; // Highest observation within Q3 + 1.5 * IQR
+  mean: number;
+  outliers: number[];
+  count: number;
+}
+
+// Five-number summary with Tukey fences; observations beyond the fences are
+// reported as outliers instead of stretching the whiskers
+export const computeBoxplotStats = (values: number[]): BoxplotStats | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const median = quantile(sorted, 0.5);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowerFence = q1 - 1.5 * iqr;
+  const upperFence = q3 + 1.5 * iqr;
+
+  const inside = sorted.filter((val) => val >= lowerFence && val <= upperFence);
+  const outliers = sorted.filter((val) => val < lowerFence || val > upperFence);
+
+  return {
+    lowerWhisker: inside.length > 0 ? inside[0] : q1,
+    q1,
+    median,
+    q3,
+    upperWhisker: inside.length > 0 ? inside[inside.length - 1] : q3,
+    mean: mean(sorted),
+    outliers,
+    count: sorted.length,
+  };
+};
+
+export type AggregationType =
+  | "sum"
+  | "mean"
+  | "count"
+  | "distinct"
+  | "min"
+  | "max"
+  | "median";
+
+// Reduce the values that fall into one cell/group to a single number
+export const aggregateValues = (
+  values: number[],
+  aggregation: AggregationType
+): number => {
+  switch (aggregation) {
+    case "count":
+      return values.length;
+    case "distinct":
+      return new Set(values).size;
+    case "mean":
+      return mean(values);
+    case "min":
+      return values.length > 0 ? minValue(values) : 0;
+    case "max":
+      return values.length > 0 ? maxValue(values) : 0;
+    case "median":
+      return values.length > 0
+        ? quantile([...values].sort((a, b) => a - b), 0.5)
+        : 0;
+    case "sum":
+    default:
+      return values.reduce((sum, val) => sum + val, 0);
+  }
+};
+
+// Parse how duplicate rows should be combined from a prompt. "number of
+// total_interactions" sums that column when `isMeasure` recognizes it as a
+// numeric field; "number of tickets" counts rows.
+export const parseAggregation = (
+  prompt: string,
+  fallback: AggregationType = "sum",
+  isMeasure?: (word: string) => boolean
+): AggregationType => {
+  const promptLower = prompt.toLowerCase();
+  if (/\bmedian\b/.test(promptLower)) return "median";
+  // "highest value per region" or "peak per day" aggregate, but "top 5
+  // agents by highest kpi" and "lowest first" only rank
+  if (
+    /\b(max|maximum)\b/.test(promptLower) ||
+    /\b(highest|peak)(\s+[\w.]+)?\s+(per|each|for each|in each)\b/.test(
+      promptLower
+    )
+  ) {
+    return "max";
+  }
+  if (
+    /\b(min|minimum)\b/.test(promptLower) ||
+    /\blowest(\s+[\w.]+)?\s+(per|each|for each|in each)\b/.test(promptLower)
+  ) {
+    return "min";
+  }
+  if (/\b(average|avg|mean)\b/.test(promptLower)) return "mean";
+  if (/\b(distinct|unique)\b/.test(promptLower)) return "distinct";
+  const tallies = [
+    ...promptLower.matchAll(/\b(?:number of|how many)\b(?:\s+([\w.]+))?/g),
+  ];
+  if (
+    /\bcount\b/.test(promptLower) ||
+    tallies.some((match) => !match[1] || !isMeasure?.(match[1]))
+  ) {
+    return "count";
+  }
+  if (tallies.length > 0 || /\b(sum|total)\b/.test(promptLower)) return "sum";
+  return fallback;
+};
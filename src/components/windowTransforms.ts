@@ -0,0 +1,242 @@
+// Window transforms over ordered rows: "cumulative sales", "3-month moving
+// average", "share of total", "month-over-month growth", "YoY change"
+import type { ChartDataPoint } from "../types";
+import { parseDateValue, type TemporalFormat } from "./dates";
+import { toFiniteNumber } from "./statistics";
+
+export type WindowTransformType =
+  | "cumulative"
+  | "movingAverage"
+  | "percentOfTotal"
+  | "difference"
+  | "percentChange"
+  | "rank";
+
+export const WINDOW_TRANSFORM_TYPES: WindowTransformType[] = [
+  "cumulative",
+  "movingAverage",
+  "percentOfTotal",
+  "difference",
+  "percentChange",
+  "rank",
+];
+
+export interface WindowTransform {
+  type: WindowTransformType;
+  window?: number; // Rows averaged by movingAverage
+  period?: "previous" | "year"; // What difference/percentChange compare to
+  reset?: "year"; // Restart cumulative sums each calendar year (YTD)
+}
+
+export const DEFAULT_MOVING_WINDOW = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far "the same period last year" may drift, so ISO weeks still line up
+const YEAR_TOLERANCE_MS = 3.5 * DAY_MS;
+
+// Column holding the untransformed value, for tooltips
+export const rawValueKey = (key: string) => `${key}:raw`;
+
+// Transforms whose values are percentages
+export const isPercentTransform = (transform: WindowTransform) =>
+  transform.type === "percentOfTotal" || transform.type === "percentChange";
+
+// Axis and tooltip label, e.g. "% change vs last year"
+export const describeTransform = (transform: WindowTransform): string => {
+  const versus = transform.period === "year" ? "last year" : "previous";
+  switch (transform.type) {
+    case "cumulative":
+      return transform.reset === "year" ? "Year-to-date sum" : "Cumulative sum";
+    case "movingAverage":
+      return `${
+        transform.window ?? DEFAULT_MOVING_WINDOW
+      }-point moving average`;
+    case "percentOfTotal":
+      return "% of total";
+    case "difference":
+      return `Change vs ${versus}`;
+    case "percentChange":
+      return `% change vs ${versus}`;
+    case "rank":
+      return "Rank";
+  }
+};
+
+// The value one year before `time` among `times`, within a few days
+const sameTimeLastYear = (
+  time: number,
+  times: Array<number | null>,
+  values: Array<number | null>
+): number | null => {
+  const date = new Date(time);
+  const target = new Date(
+    date.getFullYear() - 1,
+    date.getMonth(),
+    date.getDate(),
+    date.getHours()
+  ).getTime();
+  let best: number | null = null;
+  let bestGap = YEAR_TOLERANCE_MS;
+  times.forEach((other, idx) => {
+    if (other === null) return;
+    const gap = Math.abs(other - target);
+    if (gap <= bestGap) {
+      best = values[idx];
+      bestGap = gap;
+    }
+  });
+  return best;
+};
+
+// Transform one column whose values are in plotting order
+const transformValues = (
+  values: Array<number | null>,
+  times: Array<number | null>,
+  transform: WindowTransform
+): Array<number | null> => {
+  switch (transform.type) {
+    case "cumulative": {
+      let total = 0;
+      let year: number | null = null;
+      return values.map((value, idx) => {
+        const time = times[idx];
+        if (transform.reset === "year" && time !== null) {
+          const rowYear = new Date(time).getFullYear();
+          if (rowYear !== year) total = 0;
+          year = rowYear;
+        }
+        if (value === null) return null;
+        total += value;
+        return total;
+      });
+    }
+    case "movingAverage": {
+      const window = Math.max(1, transform.window ?? DEFAULT_MOVING_WINDOW);
+      return values.map((value, idx) => {
+        if (value === null) return null;
+        const recent = values
+          .slice(Math.max(0, idx - window + 1), idx + 1)
+          .filter((item): item is number => item !== null);
+        return recent.reduce((sum, item) => sum + item, 0) / recent.length;
+      });
+    }
+    case "percentOfTotal": {
+      const total = values.reduce<number>(
+        (sum, value) => sum + (value ?? 0),
+        0
+      );
+      return values.map((value) =>
+        value === null || total === 0 ? null : (value / total) * 100
+      );
+    }
+    case "difference":
+    case "percentChange": {
+      let previous: number | null = null;
+      return values.map((value, idx) => {
+        const base =
+          transform.period === "year"
+            ? times[idx] === null
+              ? null
+              : sameTimeLastYear(times[idx] as number, times, values)
+            : previous;
+        if (value !== null) previous = value;
+        if (value === null || base === null) return null;
+        if (transform.type === "difference") return value - base;
+        return base === 0 ? null : ((value - base) / Math.abs(base)) * 100;
+      });
+    }
+    case "rank": {
+      // Competition ranking, highest first: ties share a rank
+      return values.map((value) =>
+        value === null
+          ? null
+          : values.filter((other) => other !== null && other > value).length +
+            1
+      );
+    }
+  }
+};
+
+// Apply `transform` to each value key, keeping the raw value under
+// rawValueKey(). Rows with a `timeFormat` are processed in date order;
+// otherwise in the order given.
+export const windowRows = <T extends ChartDataPoint>(
+  rows: T[],
+  nameKey: string,
+  valueKeys: string[],
+  transform: WindowTransform,
+  timeFormat?: TemporalFormat
+): T[] => {
+  const rowTimes = rows.map((row) =>
+    timeFormat ? parseDateValue(row[nameKey], timeFormat) : null
+  );
+  const order = rows.map((_, idx) => idx);
+  if (timeFormat) {
+    order.sort(
+      (a, b) =>
+        (rowTimes[a] ?? Infinity) - (rowTimes[b] ?? Infinity) || a - b
+    );
+  }
+  const times = order.map((idx) => rowTimes[idx]);
+  const result: ChartDataPoint[] = rows.map((row) => ({ ...row }));
+  valueKeys.forEach((key) => {
+    const values = order.map((idx) => toFiniteNumber(rows[idx][key]));
+    const transformed = transformValues(values, times, transform);
+    order.forEach((rowIdx, position) => {
+      result[rowIdx][rawValueKey(key)] = rows[rowIdx][key] ?? null;
+      result[rowIdx][key] = transformed[position];
+    });
+  });
+  return result as T[];
+};
+
+const CUMULATIVE =
+  /\b(?:cumulative|cumulatively|running (?:total|sum)|cumsum|accumulated)\b/;
+const YEAR_TO_DATE = /\b(?:year[\s-]to[\s-]date|ytd)\b/;
+// "3-month moving average", "rolling average over 7", "7 day rolling mean"
+const MOVING_AVERAGE =
+  /\b(?:(\d+)[\s-]*(?:[a-z]+[\s-]+)?)?(?:moving|rolling|trailing)\s+(?:average|avg|mean)(?:\s+(?:of|over)\s+(\d+))?/;
+const PERCENT_OF_TOTAL =
+  /\b(?:share of (?:the )?total|(?:percent|percentage) of (?:the )?total|% of (?:the )?total|proportion of (?:the )?total|as (?:a )?(?:percent|percentage) of)\b|% of total/;
+const YEAR_OVER_YEAR =
+  /\b(?:yoy|y\/y|year[\s-]over[\s-]year|(?:vs\.?|versus|compared (?:to|with)) (?:the )?same (?:period|day|week|month|quarter) last year|(?:vs\.?|versus|compared (?:to|with)) last year)\b/;
+const PERIOD_OVER_PERIOD =
+  /\b(?:mom|m\/m|wow|w\/w|dod|qoq|q\/q|(?:month|week|day|quarter|period)[\s-]over[\s-](?:month|week|day|quarter|period)|(?:vs\.?|versus|compared (?:to|with)|from) (?:the )?previous(?: (?:row|period|month|week|day|quarter))?|period change|percent change|% change|growth rate)\b|% change/;
+const ABSOLUTE_CHANGE =
+  /\b(?:difference|diff|delta|absolute change|net change)\b/;
+const RANK =
+  /\b(?:bump chart|as ranks?|rank(?:ing)?s? over time|rank position)\b/;
+
+// The window transform a prompt asks for; undefined when it asks for none.
+// "growth rate" or "percent change" that `isField` recognizes as a column
+// name plots that column instead.
+export const parseWindowTransform = (
+  prompt: string,
+  isField?: (phrase: string) => boolean
+): WindowTransform | undefined => {
+  const promptLower = prompt.toLowerCase();
+  const yearOverYear = YEAR_OVER_YEAR.test(promptLower);
+  const periodMatch = promptLower.match(PERIOD_OVER_PERIOD);
+  if (yearOverYear || (periodMatch && !isField?.(periodMatch[0]))) {
+    return {
+      type: ABSOLUTE_CHANGE.test(promptLower) ? "difference" : "percentChange",
+      period: yearOverYear ? "year" : "previous",
+    };
+  }
+  const movingMatch = promptLower.match(MOVING_AVERAGE);
+  if (movingMatch) {
+    const window = parseInt(movingMatch[1] || movingMatch[2] || "", 10);
+    return {
+      type: "movingAverage",
+      window: window > 0 ? window : DEFAULT_MOVING_WINDOW,
+    };
+  }
+  if (YEAR_TO_DATE.test(promptLower)) {
+    return { type: "cumulative", reset: "year" };
+  }
+  if (CUMULATIVE.test(promptLower)) return { type: "cumulative" };
+  if (PERCENT_OF_TOTAL.test(promptLower)) return { type: "percentOfTotal" };
+  if (RANK.test(promptLower)) return { type: "rank" };
+  return undefined;
+};